@@ -10,9 +10,9 @@ mkdir -p public/audio/intros
 
 echo "🎙️ Generating audio with voice: $VOICE"
 
-# 1. Essential Sounds (1-90)
+# 1. Essential Sounds (1-99, covers every game format)
 echo "Generating essential sounds..."
-for i in {1..90}; do
+for i in {1..99}; do
   PADDED=$(printf "%02d" $i)
   TEXT="Số $i"
   say -v "$VOICE" -o "public/audio/essential/$PADDED.m4a" "$TEXT"
@@ -21,9 +21,9 @@ for i in {1..90}; do
   mkdir -p "public/audio/variants/$PADDED"
 done
 
-# 2. Variants (1-90)
+# 2. Variants (1-99)
 echo "Generating variant sounds..."
-for i in {1..90}; do
+for i in {1..99}; do
   PADDED=$(printf "%02d" $i)
   
   # Simple variant 1
@@ -1,15 +1,43 @@
 import { createServer } from 'http';
 import { parse } from 'url';
 import next from 'next';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import helmet from 'helmet';
 import cors from 'cors';
 import { connectDB } from './src/lib/mongodb';
 import { RoomService } from './src/services/room.service';
 import { GameService } from './src/services/game.service';
 import { TicketService } from './src/services/ticket.service';
-import { CreateRoomSchema, JoinRoomSchema } from './src/lib/validation';
+import { AutoCallService } from './src/services/auto-call.service';
+import { RoomLifecycleService } from './src/services/room-lifecycle.service';
+import { PresenceService } from './src/services/presence.service';
+import { HostFailoverService } from './src/services/host-failover.service';
+import { SessionTokenService } from './src/services/session-token.service';
+import { RateLimitService } from './src/services/rate-limit.service';
+import { InviteService } from './src/services/invite.service';
+import { JoinRequestService } from './src/services/join-request.service';
+import { LobbyService } from './src/services/lobby.service';
+import { EditableRoomSettingsSchema, SocketEventSchemas, type SocketEventArgs, type SocketEventName } from './src/lib/validation';
 import { validateTicket, validateNumbers } from './src/lib/number-generator';
+import { findCompletionIndex } from './src/lib/win-patterns';
+import { getGameFormat } from './src/lib/game-formats';
+import { canModerate, hasPermission, isBanned, isMuted } from './src/lib/roles';
+import { changedSettings, isLiveSetting, type EditableRoomSettings } from './src/lib/room-settings';
+import { choosePenalty, countStrikes, getPendingClaims } from './src/lib/claims';
+import type { AutoCallStatus, ClaimPenalty, CoHostPermission, PresenceStatus, PrizeAward } from './src/lib/game-types';
+import type { IGameSession, IRoom, ISessionClaim, ITicket } from './src/models';
+import {
+    isCompatibleProtocol,
+    LOBBY_NAMESPACE,
+    PROTOCOL_VERSION,
+    type ClientToServerEvents,
+    type HandshakeAuth,
+    type InterServerEvents,
+    type KinhClaim,
+    type ServerToClientEvents,
+    type SocketData,
+} from './src/lib/socket-events';
+import { ERROR_MESSAGES, GameError, socketError, retryError, isSocketError, toSocketError, type SocketError } from './src/lib/errors';
 import { folkNames } from './src/lib/folk-names';
 import redis from './src/lib/redis';
 import { createAdapter } from '@socket.io/redis-adapter';
@@ -17,68 +45,493 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+type GameServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOSTNAME || 'localhost';
 const port = parseInt(process.env.PORT || '3000', 10);
 
-// Auto-call intervals map
-const autoCallIntervals = new Map<string, NodeJS.Timeout>();
+// Auto-call is scheduled through redis (see AutoCallService) so that exactly
+// one instance drives each room and auto-call survives restarts
+async function stopAutoCall(roomCode: string, io: GameServer) {
+    await AutoCallService.disable(roomCode);
+    await emitAutoCallStatus(io, roomCode);
+}
+
+async function startAutoCall(roomCode: string, speed: number, io: GameServer) {
+    await AutoCallService.enable(roomCode, speed);
+    await emitAutoCallStatus(io, roomCode);
+}
+
+async function getAutoCallStatus(roomCode: string): Promise<AutoCallStatus> {
+    const [schedule, session, room] = await Promise.all([
+        AutoCallService.getSchedule(roomCode),
+        GameService.getActiveSession(roomCode),
+        RoomService.getRoom(roomCode),
+    ]);
+    const speed = schedule?.speed ?? room?.settings.callSpeed ?? 5;
 
-function stopAutoCall(roomCode: string) {
-    const interval = autoCallIntervals.get(roomCode);
-    if (interval) {
-        clearInterval(interval);
-        autoCallIntervals.delete(roomCode);
+    // A claim waiting for the host holds the draw like a pause does
+    if (session?.paused || getPendingClaims(session?.claims).length > 0) {
+        return { state: 'paused', speed, nextCallIn: null };
     }
+    if (schedule) return { state: 'running', speed, nextCallIn: Math.max(0, schedule.nextAt - Date.now()) };
+    return { state: 'stopped', speed, nextCallIn: null };
 }
 
-function startAutoCall(roomCode: string, speed: number, io: Server) {
-    stopAutoCall(roomCode); // Clear existing
+// Clients run their countdown to the next call from this
+async function emitAutoCallStatus(io: GameServer, roomCode: string) {
+    io.to(roomCode).emit('game:auto-call', await getAutoCallStatus(roomCode));
+}
 
-    // Initial delay before first spin? Or immediate?
-    const interval = setInterval(async () => {
-        try {
-            const result = await GameService.spinNumber(roomCode);
-            if (result) {
-                const { number, session } = result;
-                // Need to fetch room again or pass settings? cache is okay.
-                // Optim: Pass room settings to helper or fetch.
-                const room = await RoomService.getRoom(roomCode);
+// One auto-call step; returns false when there is nothing left to call
+async function autoCallTick(roomCode: string, io: GameServer): Promise<boolean> {
+    const result = await GameService.spinNumber(roomCode);
+    if (!result) return false; // No more numbers or no active game
 
-                // Get folk name
-                let folkName = folkNames[number] || `Số ${number}`;
-                if (room?.settings.audioMode === 'calling') {
-                    folkName = `Số ${number}`;
-                }
+    const { number, session } = result;
+    const room = await RoomService.getRoom(roomCode);
 
-                io.to(roomCode).emit('game:number-called', {
-                    number,
-                    folkName,
-                    calledNumbers: session.calledNumbers.map(c => c.number),
-                    timestamp: Date.now(),
-                });
+    // Get folk name
+    let folkName = folkNames[number] || `Số ${number}`;
+    if (room?.settings.audioMode === 'calling') {
+        folkName = `Số ${number}`;
+    }
 
-                io.to(roomCode).emit('audio:play-sequence', number);
+    io.to(roomCode).emit('game:number-called', {
+        number,
+        folkName,
+        calledNumbers: session.calledNumbers.map(c => c.number),
+        timestamp: Date.now(),
+    });
 
-                // Auto Check Mode
-                if (room?.settings.checkMode === 'auto') {
-                    const winner = await GameService.checkAutoWinner(roomCode, session.calledNumbers.map(c => c.number));
-                    if (winner) {
-                        io.to(roomCode).emit('game:winner', winner);
-                        stopAutoCall(roomCode);
-                    }
-                }
-            } else {
-                // No more numbers or error
-                stopAutoCall(roomCode);
+    io.to(roomCode).emit('audio:play-sequence', number);
+
+    // Auto Check Mode
+    if (room?.settings.checkMode === 'auto') {
+        const { awards, session: updatedSession } = await GameService.checkAutoWinner(roomCode, room.settings);
+        if (updatedSession) await announcePrizes(io, roomCode, updatedSession, awards);
+    }
+
+    await emitAutoCallStatus(io, roomCode);
+    return true;
+}
+
+// Resume auto-call after a kinh interrupted it, if the room still wants it,
+// the host has not paused the game and no other claim is waiting
+async function resumeAutoCall(roomCode: string, io: GameServer) {
+    const [room, session] = await Promise.all([
+        RoomService.getRoom(roomCode),
+        GameService.getActiveSession(roomCode),
+    ]);
+    const waiting = getPendingClaims(session?.claims).length > 0;
+    if (room?.settings.autoCall && room.status === 'playing' && session && !session.paused && !waiting) {
+        await startAutoCall(roomCode, room.settings.callSpeed, io);
+    } else {
+        await emitAutoCallStatus(io, roomCode);
+    }
+}
+
+// After a restart, or a redis flush, auto-calling rooms whose schedule is gone start
+// again from their game in Mongo; a running schedule is left as it is
+async function restoreAutoCall(io: GameServer) {
+    for (const roomCode of await RoomService.getAutoCallRooms()) {
+        if (await AutoCallService.isEnabled(roomCode)) continue;
+        // Stays off while the game is paused or a claim is waiting, as after a kinh
+        await resumeAutoCall(roomCode, io);
+        if (await AutoCallService.isEnabled(roomCode)) console.log(`🔁 Auto call restored in room ${roomCode}`);
+    }
+}
+
+// Start a game, by the host or at its scheduled time; a scheduled start is used up
+async function startGame(io: GameServer, roomCode: string) {
+    const current = await RoomService.getRoom(roomCode);
+    if (!current) return;
+
+    const session = await GameService.startGame(roomCode, getGameFormat(current.settings.gameFormat));
+    if (current.settings.scheduledStart) {
+        await Promise.all([RoomService.setSchedule(roomCode, null), AutoCallService.cancelWake(roomCode)]);
+    }
+    const room = await RoomService.getRoom(roomCode);
+
+    io.to(roomCode).emit('game:started', { sessionId: session.sessionId, seedHash: session.seedHash });
+    if (room) emitRoomUpdated(io, room);
+
+    // Start Auto Call if enabled
+    if (room && room.settings.autoCall) {
+        await startAutoCall(roomCode, room.settings.callSpeed, io);
+    }
+
+    console.log(`🎮 Game started in room ${roomCode}`);
+}
+
+// Reminders sent to the room ahead of a scheduled start, in ms before it
+const START_REMINDERS_MS = [10 * 60 * 1000, 60 * 1000];
+// Too few players at the scheduled time: try again this much later
+const START_POSTPONE_MS = 60 * 1000;
+
+// When a room with a scheduled start should wake next: the first reminder still ahead, else the start
+function nextWake(startAt: number, now = Date.now()): number {
+    return START_REMINDERS_MS.map(ms => startAt - ms).find(at => at > now) ?? startAt;
+}
+
+// A scheduled room woke up (see AutoCallService): remind the room, postpone the start
+// while too few players have joined, or start the game. Returns the next wake-up.
+async function scheduledWake(roomCode: string, io: GameServer): Promise<number | null> {
+    const room = await RoomService.getRoom(roomCode);
+    const startAt = room?.settings.scheduledStart;
+    if (!room || room.closedAt || !startAt || room.status === 'playing') return null;
+
+    const now = Date.now();
+    if (now < startAt) {
+        io.to(roomCode).emit('game:start-reminder', startAt - now);
+        return nextWake(startAt, now);
+    }
+
+    const players = room.players.filter(p => p.oderId !== room.hostId).length;
+    if (players < room.settings.minPlayers) {
+        const postponed = await RoomService.setSchedule(roomCode, now + START_POSTPONE_MS);
+        if (postponed) emitRoomUpdated(io, postponed);
+        console.log(`⏳ Start of ${roomCode} postponed: ${players}/${room.settings.minPlayers} players`);
+        return now + START_POSTPONE_MS;
+    }
+
+    await startGame(io, roomCode);
+    return null;
+}
+
+// Publish the draw seed of an ended session so players can verify the draw
+async function revealSeed(io: GameServer, roomCode: string, sessionId: string) {
+    const commitment = await GameService.getDrawCommitment(sessionId);
+    if (commitment?.seed) io.to(roomCode).emit('game:seed-revealed', commitment);
+}
+
+// Handshake: refuse clients built for another protocol major before they connect
+function checkProtocol(socket: GameSocket, next: (err?: Error) => void) {
+    const { protocolVersion } = socket.handshake.auth as Partial<HandshakeAuth>;
+    if (isCompatibleProtocol(protocolVersion)) {
+        next();
+        return;
+    }
+
+    console.log(`⛔ Refused client ${socket.id}: protocol ${protocolVersion ?? 'none'}, server ${PROTOCOL_VERSION}`);
+    const err: Error & { data?: SocketError } = new Error('Incompatible protocol version');
+    err.data = socketError('PROTOCOL_MISMATCH');
+    next(err);
+}
+
+// Whether the socket still holds a valid session token for its player (not expired or revoked)
+async function authenticate(socket: GameSocket): Promise<boolean> {
+    const { roomCode, oderId, token } = socket.data;
+    if (!roomCode || !oderId) return false;
+
+    const claims = await SessionTokenService.verify(token);
+    return !!claims && claims.roomCode === roomCode && claims.oderId === oderId;
+}
+
+// The browser id the client connected with, if it sent a usable one
+function deviceIdOf(socket: GameSocket): string | undefined {
+    const { deviceId } = socket.handshake.auth as Partial<HandshakeAuth>;
+    return typeof deviceId === 'string' && deviceId.length > 0 && deviceId.length <= 64 ? deviceId : undefined;
+}
+
+// Players and spectators alike
+function isInRoom(room: IRoom, oderId: string): boolean {
+    return room.players.some(p => p.oderId === oderId) || (room.spectators ?? []).some(s => s.oderId === oderId);
+}
+
+// Whether the socket's player may act for the host (host only without a permission).
+// Read from the room every time: host and co-hosts can change while sockets stay connected.
+async function authorize(socket: GameSocket, permission?: CoHostPermission): Promise<boolean> {
+    const { roomCode, oderId } = socket.data;
+    if (!roomCode || !oderId || !(await authenticate(socket))) return false;
+
+    const room = await RoomService.getRoom(roomCode);
+    return !!room && hasPermission(room, oderId, permission);
+}
+
+// A ticket action by a player: the ticket must be in their room and theirs,
+// and a game must be running. Returns what the action needs, or why it is refused.
+async function loadTicketAction(
+    roomCode: string,
+    oderId: string,
+    ticketId: string
+): Promise<{ ticket: ITicket; session: IGameSession; room: IRoom } | SocketError> {
+    const [ticket, session, room] = await Promise.all([
+        TicketService.getTicketById(ticketId),
+        GameService.getActiveSession(roomCode),
+        RoomService.getRoom(roomCode),
+    ]);
+
+    if (!ticket) return socketError('TICKET_NOT_FOUND');
+    if (ticket.roomCode !== roomCode.toUpperCase()) return socketError('WRONG_ROOM');
+    if (ticket.ownerId !== oderId) return socketError('NOT_TICKET_OWNER');
+    if (!room) return socketError('NOT_AUTHENTICATED');
+    if (!session || session.endedAt) {
+        return socketError(room.status === 'waiting' ? 'GAME_NOT_STARTED' : 'GAME_ENDED');
+    }
+
+    return { ticket, session, room };
+}
+
+// Take a player out of the room against their will (kicked, banned by `bannedBy`, or a
+// false-claim penalty): their session tokens stop working, their tickets are thrown away
+// and their sockets, on any instance, are told and disconnected. The host cannot be removed.
+async function removePlayer(io: GameServer, roomCode: string, oderId: string, reason: string, bannedBy?: string) {
+    const current = await RoomService.getRoom(roomCode);
+    if (!current || current.hostId === oderId) return;
+
+    const [room] = await Promise.all([
+        bannedBy ? RoomService.banPlayer(roomCode, oderId, bannedBy) : RoomService.leaveRoom(roomCode, oderId),
+        PresenceService.remove(roomCode, oderId),
+        SessionTokenService.revoke(roomCode, oderId),
+        TicketService.deletePlayerTickets(roomCode, oderId),
+    ]);
+
+    for (const target of await io.in(roomCode).fetchSockets()) {
+        if (target.data.oderId !== oderId) continue;
+        target.emit('room:kicked', reason);
+        target.disconnect(true);
+    }
+
+    io.to(roomCode).emit('player:left', oderId);
+    if (room) emitRoomUpdated(io, room);
+    console.log(`🚪 ${oderId} removed from ${roomCode}: ${reason}`);
+}
+
+// Decide a pending claim and tell the room; a rejection costs the player a strike
+async function resolveClaim(
+    io: GameServer,
+    roomCode: string,
+    claimId: string,
+    status: 'approved' | 'rejected' | 'expired',
+    resolvedBy: string
+): Promise<ISessionClaim | null> {
+    let penalty: ClaimPenalty | undefined;
+    if (status === 'rejected') {
+        const [room, session] = await Promise.all([
+            RoomService.getRoom(roomCode),
+            GameService.getActiveSession(roomCode),
+        ]);
+        const oderId = session?.claims?.find(c => c.claimId === claimId)?.oderId;
+        if (room && oderId) penalty = choosePenalty(room.settings.falseClaimPenalty, countStrikes(session.claims, oderId) + 1);
+    }
+
+    const resolved = await GameService.resolveClaim(roomCode, claimId, { status, penalty, resolvedBy });
+    if (!resolved) return null;
+
+    io.to(roomCode).emit('game:claim-resolved', GameService.toClaimRecord(resolved.claim));
+    if (status === 'rejected') await penalize(io, roomCode, resolved.claim);
+    return resolved.claim;
+}
+
+// What a false claim costs, as chosen when it was logged. The cooldown applies
+// with every strike while the room has it on; forfeit and kick come on top.
+async function penalize(io: GameServer, roomCode: string, claim: ISessionClaim) {
+    const room = await RoomService.getRoom(roomCode);
+    if (!room) return;
+
+    if (room.settings.falseClaimPenalty?.cooldown ?? true) {
+        await RateLimitService.recordFalseKinh(roomCode, claim.oderId);
+    }
+    if (claim.penalty === 'forfeit') {
+        await GameService.forfeitTicket(roomCode, claim.ticketId);
+    } else if (claim.penalty === 'kick') {
+        await removePlayer(io, roomCode, claim.oderId, 'Bạn bị mời ra vì kinh sai nhiều lần');
+    }
+    console.log(`🚫 False kinh by ${claim.nickname} in ${roomCode} (${claim.status}), penalty: ${claim.penalty ?? 'none'}`);
+}
+
+// The pending claim the host is deciding: by id, or the one on that ticket
+function findPendingClaim(session: IGameSession, claim: KinhClaim): ISessionClaim | undefined {
+    return getPendingClaims(session.claims)
+        .find(c => claim.claimId ? c.claimId === claim.claimId : c.ticketId === claim.ticketId);
+}
+
+// After a prize is settled: claims on winning tickets were right, and once the
+// game is over nothing else can be won
+async function settlePendingClaims(io: GameServer, roomCode: string, session: IGameSession, award: PrizeAward) {
+    for (const claim of getPendingClaims(session.claims)) {
+        if (award.winners.some(w => w.ticketId === claim.ticketId)) {
+            await resolveClaim(io, roomCode, claim.claimId, 'approved', 'auto');
+        } else if (session.endedAt) {
+            await resolveClaim(io, roomCode, claim.claimId, 'expired', 'auto');
+        }
+    }
+}
+
+// Answer to a kinh claim or ticket check that was refused before the ticket was checked
+function refusedClaim(error: SocketError) {
+    return { isValid: false, isWinner: false, matchedNumbers: [], missingNumbers: [], error };
+}
+
+// The ack callback a client event takes, never for events without one
+type EventAck<E extends SocketEventName> = Extract<Parameters<ClientToServerEvents[E]>[number], (...args: never[]) => void>;
+
+// How each event with an ack reports a failure; the others get an 'error' event
+const FAILURE_REPLIES: { [E in SocketEventName]?: (error: SocketError) => Parameters<EventAck<E>> } = {
+    'room:create': error => [null, error],
+    'room:join': error => [null, error],
+    'room:spectate': error => [null, error],
+    'room:become-player': error => [null, error],
+    'room:rejoin': error => [null, error],
+    'host:set-co-host': error => [false, error],
+    'host:kick': error => [false, error],
+    'host:ban': error => [false, error],
+    'host:mute': error => [false, error],
+    'host:set-access': error => [false, error],
+    'host:create-invite': error => [null, error],
+    'host:admit': error => [false, error],
+    'game:spin': error => [null, error],
+    'game:set-speed': error => [false, error],
+    'game:schedule': error => [false, error],
+    'host:update-settings': error => [false, error],
+    'host:validate-ticket': error => [refusedClaim(error)],
+    'host:validate-numbers': error => [refusedClaim(error)],
+    'host:approve-winner': error => [false, error],
+    'player:create-tickets': error => [null, error],
+    'player:mark-number': error => [false, error],
+    'player:call-kinh': error => [refusedClaim(error)],
+    'player:react': error => [false, error],
+};
+
+// Register a client event handler behind its rate limit and payload schema. The handler
+// gets the parsed arguments, an ack that is always callable (a no-op when the client sent
+// none) and `fail`, which answers with a SocketError in the event's failure shape.
+function on<E extends SocketEventName>(
+    socket: GameSocket,
+    event: E,
+    handler: (args: SocketEventArgs<E>, reply: { ack: EventAck<E>; fail: (error: SocketError) => void }) => Promise<void>
+) {
+    // Arguments arrive untrusted, whatever the protocol types say; the schema checks them
+    const listener = async (...raw: unknown[]) => {
+        type Ack = (...args: Parameters<EventAck<E>>) => void;
+        const clientAck = typeof raw[raw.length - 1] === 'function' ? raw.pop() as Ack : undefined;
+        const ack = (clientAck ?? (() => {})) as EventAck<E>;
+        const fail = (error: SocketError) => {
+            const reply = FAILURE_REPLIES[event] as ((error: SocketError) => Parameters<EventAck<E>>) | undefined;
+            if (clientAck && reply) clientAck(...reply(error));
+            else socket.emit('error', error);
+        };
+
+        try {
+            const { roomCode, oderId } = socket.data;
+            const retryAfter = await RateLimitService.consume(event, { socketId: socket.id, roomCode, oderId });
+            if (retryAfter > 0) {
+                fail(retryError('RATE_LIMITED', retryAfter));
+                return;
+            }
+
+            const parsed = SocketEventSchemas[event].safeParse(raw);
+            if (!parsed.success) {
+                fail(socketError('INVALID_PAYLOAD'));
+                return;
             }
-        } catch (e) {
-            console.error(`Auto call error room ${roomCode}:`, e);
-            stopAutoCall(roomCode);
+
+            await handler(parsed.data as SocketEventArgs<E>, { ack, fail });
+        } catch (err) {
+            console.error(`${event} error:`, err);
+            fail(toSocketError(err));
+        }
+    };
+    socket.on(event, listener as never);
+}
+
+// Every change to a room goes to its players, and to the lobby if the room is listed there
+function emitRoomUpdated(io: GameServer, room: IRoom) {
+    io.to(room.code).emit('room:updated', RoomService.toRoom(room));
+    if (LobbyService.isListed(room)) refreshLobby(io);
+}
+
+function refreshLobby(io: GameServer) {
+    LobbyService.scheduleRefresh(rooms => io.of(LOBBY_NAMESPACE).emit('lobby:rooms', rooms));
+}
+
+function emitPresence(io: GameServer, roomCode: string, playerId: string, status: PresenceStatus) {
+    io.to(roomCode).emit('room:presence', { playerId, status });
+}
+
+// The approval queue changed (or who may see it did): only the host and co-hosts who
+// may admit players get it, the same ones room:rejoin hands it to
+async function emitJoinRequests(io: GameServer, roomCode: string) {
+    const [room, requests] = await Promise.all([RoomService.getRoom(roomCode), JoinRequestService.list(roomCode)]);
+    if (!room) return;
+
+    const queue = requests.map(r => JoinRequestService.toJoinRequest(r));
+    for (const target of await io.in(roomCode).fetchSockets()) {
+        if (target.data.oderId && hasPermission(room, target.data.oderId, 'kick')) {
+            target.emit('room:join-requests', queue);
         }
-    }, speed * 1000);
+    }
+}
+
+// The socket stops waiting for approval (gave up, disconnected or asked again)
+async function withdrawJoinRequest(io: GameServer, socket: GameSocket) {
+    const { joinRequest } = socket.data;
+    if (!joinRequest) return;
+    socket.data.joinRequest = undefined;
+    if (await JoinRequestService.take(joinRequest.roomCode, joinRequest.requestId)) {
+        await emitJoinRequests(io, joinRequest.roomCode);
+    }
+}
+
+// A player's socket dropped: mark them away, then offline after the grace period.
+// If it was the host, a connected co-host takes over after the failover delay.
+async function playerGone(io: GameServer, roomCode: string, oderId: string, socketId: string) {
+    await PresenceService.disconnect(roomCode, oderId, socketId, (code, playerId, status) => {
+        emitPresence(io, code, playerId, status);
+        console.log(`📴 ${playerId} is ${status} in room ${code}`);
+    });
+
+    const room = await RoomService.getRoom(roomCode);
+    if (room?.hostId !== oderId) return;
+    // Already back on another socket (the rejoin beat this disconnect)
+    if (await PresenceService.getConnection(roomCode, oderId)) return;
+
+    await HostFailoverService.schedule(roomCode, oderId);
+}
+
+// Close a room for everyone: stop auto-call, end the game and tell clients.
+// Used by the host and by the idle-room sweep.
+async function closeRoom(io: GameServer, roomCode: string) {
+    const room = await RoomService.closeRoom(roomCode);
+    if (!room) return;
+
+    await Promise.all([
+        HostFailoverService.cancel(roomCode),
+        AutoCallService.disable(roomCode),
+        AutoCallService.cancelWake(roomCode),
+        PresenceService.clear(roomCode),
+    ]);
+    const endedSessionId = await GameService.endSession(roomCode);
+    if (endedSessionId) await revealSeed(io, roomCode, endedSessionId);
 
-    autoCallIntervals.set(roomCode, interval);
+    io.to(roomCode).emit('room:closed');
+    io.in(roomCode).socketsLeave(roomCode);
+    if (LobbyService.isListed(room)) refreshLobby(io);
+    console.log(`⛔ Room ${roomCode} closed`);
+}
+
+// Broadcast newly awarded prizes; the last prize of the ladder ends the game
+async function announcePrizes(io: GameServer, roomCode: string, session: IGameSession, awards: PrizeAward[]) {
+    if (awards.length === 0) return;
+
+    const winners = session.winners.map(w => GameService.toWinnerInfo(w));
+    for (const award of awards) {
+        io.to(roomCode).emit('game:prize-won', { award, winners });
+        const tie = award.tie ? ` (${award.tie.mode}, ${award.tie.coWinners.length} co-winners)` : '';
+        console.log(`🏆 ${award.prizeName} in ${roomCode}: ${award.winners.map(w => w.nickname).join(', ')}${tie}`);
+        await settlePendingClaims(io, roomCode, session, award);
+    }
+
+    if (session.endedAt) {
+        await stopAutoCall(roomCode, io);
+        io.to(roomCode).emit('game:winner', awards[awards.length - 1]);
+        await revealSeed(io, roomCode, session.sessionId);
+        const room = await RoomService.getRoom(roomCode);
+        if (room) emitRoomUpdated(io, room);
+    }
 }
 
 const app = next({ dev, hostname, port });
@@ -100,7 +553,7 @@ app.prepare().then(async () => {
         handle(req, res, parsedUrl);
     });
 
-    const io = new Server(httpServer, {
+    const io: GameServer = new Server(httpServer, {
         path: '/socket.io',
         cors: {
             origin: process.env.CORS_ORIGIN || '*',
@@ -113,251 +566,1063 @@ app.prepare().then(async () => {
     const subClient = redis.duplicate();
     io.adapter(createAdapter(pubClient, subClient));
 
+    // Drive auto-call for rooms this instance holds the lease on,
+    // including rooms left running by an instance that went away, and scheduled starts
+    AutoCallService.init(roomCode => autoCallTick(roomCode, io), roomCode => scheduledWake(roomCode, io));
+    restoreAutoCall(io).catch(err => console.error('Auto call restore error:', err));
+
+    // Hand a room to a co-host when its host stays away, whichever instance they were on
+    HostFailoverService.init(async (updated, fromId) => {
+        emitRoomUpdated(io, updated);
+        await emitJoinRequests(io, updated.code);
+        console.log(`👑 Host of ${updated.code} passed from ${fromId} to ${updated.hostId}`);
+    });
+
+    // Close idle rooms and archive closed ones
+    RoomLifecycleService.init(roomCode => closeRoom(io, roomCode));
+
+    // Handshake: refuse clients built for another protocol version
+    io.use(checkProtocol);
+    io.of(LOBBY_NAMESPACE).use(checkProtocol);
+
+    // Lobby visitors get the listing now and again whenever a listed room changes
+    io.of(LOBBY_NAMESPACE).on('connection', async (socket) => {
+        try {
+            socket.emit('lobby:rooms', await LobbyService.getRooms());
+        } catch (err) {
+            console.error('Lobby listing error:', err);
+        }
+    });
+
     io.on('connection', (socket) => {
         console.log(`🔌 Client connected: ${socket.id}`);
 
         // Create Room
-        socket.on('room:create', async (hostNickname, settings, callback) => {
+        on(socket, 'room:create', async ([hostNickname, settings], { ack: callback, fail }) => {
             console.log(`📩 room:create request from ${hostNickname}`, settings);
             try {
-                const validated = CreateRoomSchema.parse({ hostNickname, settings });
-                const { room, player } = await RoomService.createRoom(
-                    validated.hostNickname,
-                    validated.settings as any
-                );
+                const { room, player } = await RoomService.createRoom(hostNickname, settings, socket.id);
 
+                const token = SessionTokenService.issue(room.code, player.oderId);
                 socket.join(room.code);
-                socket.data = { oderId: player.oderId, roomCode: room.code, isHost: true, nickname: hostNickname };
+                socket.data = { oderId: player.oderId, roomCode: room.code, isHost: true, nickname: hostNickname, token };
+                await PresenceService.connect(room.code, player.oderId, socket.id);
 
+                if (room.settings.scheduledStart) {
+                    await AutoCallService.scheduleWake(room.code, nextWake(room.settings.scheduledStart));
+                }
+                if (LobbyService.isListed(room)) refreshLobby(io);
                 console.log(`🏠 Room created: ${room.code} by ${hostNickname}`);
-                callback(room);
-            } catch (err: any) {
+                callback(RoomService.toRoom(room), undefined, { playerId: player.oderId, token });
+            } catch (err) {
                 console.error('Room create error:', err);
-                socket.emit('error', err.message || 'Lỗi khi tạo phòng');
+                fail(toSocketError(err));
             }
         });
 
-        // Join Room
-        socket.on('room:join', async (code, nickname, callback) => {
+        // Join Room, as a player or (room:spectate) as a spectator
+        const join = (spectator: boolean) => async (
+            [code, nickname, credentials]: SocketEventArgs<'room:join'>,
+            { ack: callback, fail }: { ack: EventAck<'room:join'>; fail: (error: SocketError) => void }
+        ) => {
             try {
-                const validated = JoinRoomSchema.parse({ code, nickname });
-                const { room, player } = await RoomService.joinRoom(validated.code, validated.nickname);
+                await withdrawJoinRequest(io, socket);
+                const { room, player } = await RoomService.joinRoom(
+                    code, nickname, socket.id, deviceIdOf(socket), credentials, spectator
+                );
 
+                const token = SessionTokenService.issue(room.code, player.oderId);
                 socket.join(room.code);
-                socket.data = { oderId: player.oderId, roomCode: room.code, isHost: false, nickname };
+                socket.data = { oderId: player.oderId, roomCode: room.code, isHost: false, nickname, token };
+                await PresenceService.connect(room.code, player.oderId, socket.id);
+
+                if (!spectator) io.to(room.code).emit('player:joined', RoomService.toPlayer(player));
+                emitRoomUpdated(io, room);
+                emitPresence(io, room.code, player.oderId, 'online');
+
+                console.log(`👋 ${nickname} joined room ${room.code}${spectator ? ' as a spectator' : ''}`);
+                callback(RoomService.toRoom(room), undefined, { playerId: player.oderId, token });
+            } catch (err) {
+                // Queued for the host; answered later with room:admitted or room:join-denied
+                if (err instanceof GameError && err.code === 'AWAITING_APPROVAL') {
+                    const roomCode = code.toUpperCase();
+                    const requestId = await JoinRequestService.add(roomCode, nickname, socket.id, deviceIdOf(socket), spectator);
+                    socket.data.joinRequest = { roomCode, requestId };
+                    await emitJoinRequests(io, roomCode);
+                    console.log(`🚪 ${nickname} is waiting to join room ${roomCode}`);
+                }
+                fail(toSocketError(err));
+            }
+        };
+        on(socket, 'room:join', join(false));
+        on(socket, 'room:spectate', join(true));
 
-                io.to(room.code).emit('player:joined', player);
-                io.to(room.code).emit('room:updated', room);
+        // A spectator takes a seat before the game starts; their session stays the same
+        on(socket, 'room:become-player', async (_args, { ack: callback, fail }) => {
+            const { roomCode, oderId } = socket.data;
+            if (!roomCode || !oderId || !(await authenticate(socket))) {
+                fail(socketError('NOT_AUTHENTICATED'));
+                return;
+            }
+
+            try {
+                const { room, player } = await RoomService.becomePlayer(roomCode, oderId);
+                io.to(room.code).emit('player:joined', RoomService.toPlayer(player));
+                emitRoomUpdated(io, room);
 
-                console.log(`👋 ${nickname} joined room ${room.code}`);
-                callback(room);
-            } catch (err: any) {
-                callback(null, err.message || 'Không thể tham gia phòng');
+                console.log(`🎟️ ${player.nickname} went from spectator to player in room ${room.code}`);
+                callback(RoomService.toRoom(room));
+            } catch (err) {
+                console.error('Become player error:', err);
+                fail(toSocketError(err));
             }
         });
 
         // Rejoin Room (Restore Session)
-        socket.on('room:rejoin', async (code, oderId, callback) => {
+        // The token proves who the player is; the bare player id is never trusted
+        on(socket, 'room:rejoin', async ([code, sessionToken], { ack: callback, fail }) => {
             try {
+                const claims = await SessionTokenService.verify(sessionToken);
+                if (!claims || claims.roomCode !== code.toUpperCase()) {
+                    fail(socketError('NOT_AUTHENTICATED'));
+                    return;
+                }
+                const { oderId } = claims;
+
                 // Find ongoing room
                 const room = await RoomService.getRoom(code);
-                if (!room) {
-                    callback(null, 'Phòng không tồn tại hoặc đã kết thúc');
+                if (!room || room.closedAt) {
+                    fail(socketError(room ? 'ROOM_CLOSED' : 'ROOM_NOT_FOUND'));
                     return;
                 }
 
                 // Check player existence (host or normal player)
                 // Host logic: hostSocketId usually not persistent in simple session, but odeId is key.
-                const player = room.players.find(p => p.oderId === oderId);
+                const player = room.players.find(p => p.oderId === oderId)
+                    ?? room.spectators?.find(s => s.oderId === oderId);
                 const isHost = room.hostId === oderId; // Assuming hostId == player.oderId logic or similar
 
+                if (isBanned(room, oderId, deviceIdOf(socket))) {
+                    fail(socketError('BANNED'));
+                    return;
+                }
                 if (!player && !isHost) {
-                    callback(null, 'Không tìm thấy người chơi trong phòng');
+                    fail(socketError('PLAYER_NOT_FOUND'));
                     return;
                 }
 
+                // Fresh token so an active player's session does not run out mid-game
+                const token = SessionTokenService.issue(room.code, oderId);
+                await withdrawJoinRequest(io, socket);
                 socket.join(room.code);
-                socket.data = { oderId, roomCode: room.code, isHost, nickname: player?.nickname || 'Host' };
+                socket.data = { oderId, roomCode: room.code, isHost, nickname: player?.nickname || 'Host', token };
+                // Back before a co-host took over
+                if (isHost) await HostFailoverService.cancel(room.code);
+
+                const [updatedRoom] = await Promise.all([
+                    RoomService.setPlayerSocket(room.code, oderId, socket.id),
+                    PresenceService.connect(room.code, oderId, socket.id),
+                ]);
+                emitPresence(io, room.code, oderId, 'online');
 
                 // Fetch current state
                 const session = await GameService.getActiveSession(code);
                 const tickets = await TicketService.getTickets(code, oderId);
-
-                // If it is regular player update connection status? 
-                // Currently player list is array of data, not live objects.
-                // Re-emit player list update might be needed if sound/socket changes.
+                const joinRequests = hasPermission(room, oderId, 'kick') ? await JoinRequestService.list(room.code) : [];
+                // Claims hold the draw until decided, so whoever may decide them needs them back
+                const pendingClaims = session && hasPermission(room, oderId, 'validate') ? getPendingClaims(session.claims) : [];
 
                 callback({
-                    room,
-                    tickets,
+                    room: RoomService.toRoom(updatedRoom ?? room),
+                    session: { playerId: oderId, token },
+                    presence: await PresenceService.getRoomPresence(room.code),
+                    tickets: tickets.map(t => TicketService.toLotoTicket(t)),
+                    joinRequests: joinRequests.map(r => JoinRequestService.toJoinRequest(r)),
+                    pendingClaims: pendingClaims.map(c => GameService.toKinhClaim(c)),
                     calledNumbers: session ? session.calledNumbers.map(c => c.number) : [],
+                    winners: session ? (session.winners ?? []).map(w => GameService.toWinnerInfo(w)) : [],
+                    drawCommitment: session?.seedHash ? { sessionId: session.sessionId, seedHash: session.seedHash } : null,
+                    autoCall: await getAutoCallStatus(code),
                     lastNumber: session?.calledNumbers.length ? session.calledNumbers[session.calledNumbers.length - 1].number : null
                 });
 
                 console.log(`🔄 ${socket.data.nickname} rejoined room ${code}`);
 
-            } catch (err: any) {
+            } catch (err) {
                 console.error('Rejoin error:', err);
-                callback(null, 'Lỗi khi khôi phục session');
+                fail(toSocketError(err));
             }
         });
 
-        // Start Game
-        socket.on('game:start', async () => {
-            const { roomCode, isHost } = socket.data;
-            if (!isHost || !roomCode) return;
+        // Leave Room (players are removed; the host stays until the room is closed)
+        on(socket, 'room:leave', async () => {
+            await withdrawJoinRequest(io, socket);
+            const { roomCode, oderId } = socket.data;
+            if (!roomCode || !oderId) return;
 
             try {
-                const session = await GameService.startGame(roomCode);
-                const room = await RoomService.getRoom(roomCode);
-
-                io.to(roomCode).emit('game:started');
-                if (room) io.to(roomCode).emit('room:updated', room);
+                const isHost = await authorize(socket);
+                socket.leave(roomCode);
+                socket.data = {};
 
-                // Start Auto Call if enabled
-                if (room && room.settings.autoCall) {
-                    startAutoCall(roomCode, room.settings.callSpeed, io);
+                // The host stays host, but a co-host can take over as if they had dropped
+                if (isHost) {
+                    await playerGone(io, roomCode, oderId, socket.id);
+                    return;
                 }
 
-                console.log(`🎮 Game started in room ${roomCode}`);
+                const [room] = await Promise.all([
+                    RoomService.leaveRoom(roomCode, oderId),
+                    PresenceService.remove(roomCode, oderId),
+                ]);
+                io.to(roomCode).emit('player:left', oderId);
+                if (room) emitRoomUpdated(io, room);
+                console.log(`👋 Player ${oderId} left room ${roomCode}`);
             } catch (err) {
-                console.error('Game start error:', err);
+                console.error('Leave room error:', err);
             }
         });
 
-        // Spin Number
-        socket.on('game:spin', async (callback) => {
-            const { roomCode, isHost } = socket.data;
-            if (!isHost || !roomCode) {
-                callback?.(null, 'Chỉ chủ phòng mới được quay số');
+        // Appoint, change or remove a co-host (empty permissions removes them)
+        on(socket, 'host:set-co-host', async ([playerId, permissions], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket))) {
+                fail(socketError('FORBIDDEN'));
                 return;
             }
 
             try {
-                const result = await GameService.spinNumber(roomCode);
-                if (!result) {
-                    callback?.(null, 'Đã hết số hoặc trò chơi chưa bắt đầu');
+                const room = await RoomService.setCoHost(roomCode, playerId, permissions);
+                if (!room) {
+                    fail(socketError('PLAYER_NOT_FOUND'));
                     return;
                 }
 
-                const { number, session } = result;
-                const folkName = (folkNames as any)[number] || `Số ${number}`;
-
-                io.to(roomCode).emit('game:number-called', {
-                    number,
-                    folkName,
-                    calledNumbers: session.calledNumbers.map(c => c.number),
-                    timestamp: Date.now(),
-                });
-
-                io.to(roomCode).emit('audio:play-sequence', number);
-                console.log(`🎯 Number called in ${roomCode}: ${number} - ${folkName}`);
-
-                // Auto Check Mode
-                const room = await RoomService.getRoom(roomCode);
-                if (room?.settings.checkMode === 'auto') {
-                    const winner = await GameService.checkAutoWinner(roomCode, session.calledNumbers.map(c => c.number));
-                    if (winner) {
-                        io.to(roomCode).emit('game:winner', winner);
-                        stopAutoCall(roomCode);
-                    }
-                }
-
-                callback?.(number);
+                emitRoomUpdated(io, room);
+                // A co-host who may now admit players gets the queue
+                await emitJoinRequests(io, roomCode);
+                console.log(`🤝 Co-host ${playerId} in ${roomCode}: ${permissions.join(', ') || 'removed'}`);
+                callback(true);
             } catch (err) {
-                console.error('Spin error:', err);
-                callback?.(null, 'Lỗi khi quay số');
+                console.error('Set co-host error:', err);
+                fail(toSocketError(err));
             }
         });
 
-        // Reset Game
-        socket.on('game:reset', async () => {
-            const { roomCode, isHost } = socket.data;
-            if (!isHost || !roomCode) return;
+        // Kick a player (they may join again under a new name)
+        on(socket, 'host:kick', async ([playerId], { ack: callback, fail }) => {
+            const { roomCode, oderId } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'kick'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
 
             try {
-                await GameService.resetGame(roomCode);
-                stopAutoCall(roomCode); // Stop if running
                 const room = await RoomService.getRoom(roomCode);
+                if (!room || !isInRoom(room, playerId)) {
+                    fail(socketError('PLAYER_NOT_FOUND'));
+                    return;
+                }
+                if (!canModerate(room, oderId, playerId)) {
+                    fail(socketError('FORBIDDEN'));
+                    return;
+                }
 
-                io.to(roomCode).emit('game:reset');
-                if (room) io.to(roomCode).emit('room:updated', room);
-
-                console.log(`🔄 Game reset in room ${roomCode}`);
+                await removePlayer(io, roomCode, playerId, 'Bạn đã bị mời ra khỏi phòng');
+                callback(true);
             } catch (err) {
-                console.error('Game reset error:', err);
+                console.error('Kick error:', err);
+                fail(toSocketError(err));
             }
         });
 
-        // Create Tickets
-        socket.on('player:create-tickets', async (count, callback) => {
+        // Ban a player and their device for the rest of the room's life
+        on(socket, 'host:ban', async ([playerId], { ack: callback, fail }) => {
             const { roomCode, oderId } = socket.data;
-            if (!roomCode || !oderId) return;
+            if (!roomCode || !oderId || !(await authorize(socket))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
 
             try {
                 const room = await RoomService.getRoom(roomCode);
-                if (!room) return;
+                if (!room || !isInRoom(room, playerId)) {
+                    fail(socketError('PLAYER_NOT_FOUND'));
+                    return;
+                }
+                if (!canModerate(room, oderId, playerId)) {
+                    fail(socketError('FORBIDDEN'));
+                    return;
+                }
 
-                const tickets = await TicketService.createTickets(
-                    roomCode,
-                    oderId,
-                    count,
-                    room.settings.ticketsPerPlayer
-                );
-                callback(tickets);
+                await removePlayer(io, roomCode, playerId, ERROR_MESSAGES.BANNED, oderId);
+                callback(true);
             } catch (err) {
-                console.error('Ticket creation error:', err);
+                console.error('Ban error:', err);
+                fail(toSocketError(err));
             }
         });
 
-        // Mark Number
-        socket.on('player:mark-number', async (ticketId, grid, row, col) => {
-            await TicketService.markNumber(ticketId, grid, row, col);
-        });
-
-        // Call Kinh (Bingo)
-        socket.on('player:call-kinh', async (ticketId, grid, row, callback) => {
-            const { roomCode, oderId, nickname } = socket.data;
-            if (!roomCode || !oderId) return;
+        // Mute or unmute a player (no reactions, see player:react)
+        on(socket, 'host:mute', async ([playerId, muted], { ack: callback, fail }) => {
+            const { roomCode, oderId } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'kick'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
 
             try {
-                const session = await GameService.getActiveSession(roomCode);
-                const ticket = await TicketService.getTicketById(ticketId);
-
-                if (!session || !ticket) return;
+                const current = await RoomService.getRoom(roomCode);
+                if (current && !canModerate(current, oderId, playerId)) {
+                    fail(socketError('FORBIDDEN'));
+                    return;
+                }
 
-                // Stop auto-call immediately when someone calls Kinh
-                stopAutoCall(roomCode);
+                const room = await RoomService.setMuted(roomCode, playerId, muted);
+                if (!room) {
+                    fail(socketError('PLAYER_NOT_FOUND'));
+                    return;
+                }
 
-                const calledNums = session.calledNumbers.map(c => c.number);
-                const result = validateTicket(ticket as any, calledNums, grid, row);
+                emitRoomUpdated(io, room);
+                console.log(`${muted ? '🔇' : '🔊'} ${playerId} ${muted ? 'muted' : 'unmuted'} in ${roomCode}`);
+                callback(true);
+            } catch (err) {
+                console.error('Mute error:', err);
+                fail(toSocketError(err));
+            }
+        });
 
-                io.to(roomCode).emit('player:kinh-called', {
-                    playerId: oderId,
-                    nickname,
-                    ticketId,
-                    grid,
-                    row
-                });
+        // Set or remove the password, turn the approval queue on or off
+        on(socket, 'host:set-access', async ([access], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
 
-                if (result.isWinner) {
-                    io.to(roomCode).emit('game:winner', {
-                        winnerId: oderId,
-                        nickname,
-                        ticketId,
-                        grid,
-                        row
-                    });
+            try {
+                const room = await RoomService.setAccess(roomCode, access);
+                if (!room) {
+                    fail(socketError('ROOM_CLOSED'));
+                    return;
                 }
 
-                callback(result);
+                emitRoomUpdated(io, room);
+                console.log(`🔒 Room ${roomCode} access: password ${room.passwordHash ? 'on' : 'off'}, approval ${room.settings.requireApproval ? 'on' : 'off'}`);
+                callback(true);
             } catch (err) {
-                console.error('Check winner error:', err);
+                console.error('Set access error:', err);
+                fail(toSocketError(err));
             }
         });
 
-        socket.on('disconnect', () => {
-            console.log(`❌ Client disconnected: ${socket.id}`);
+        // New invite link, past the password and the approval queue
+        on(socket, 'host:create-invite', async ([{ maxUses, expiresInMinutes }], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'kick'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const invite = await InviteService.create(roomCode, maxUses, expiresInMinutes);
+                console.log(`✉️ Invite for room ${roomCode}: ${maxUses} uses, ${expiresInMinutes} min`);
+                callback(invite);
+            } catch (err) {
+                console.error('Create invite error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Let a waiting player in, or turn them away
+        on(socket, 'host:admit', async ([requestId, admit], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'kick'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const request = await JoinRequestService.take(roomCode, requestId);
+                if (!request) {
+                    fail(socketError('JOIN_REQUEST_NOT_FOUND'));
+                    return;
+                }
+                await emitJoinRequests(io, roomCode);
+
+                if (!admit) {
+                    io.to(request.socketId).emit('room:join-denied');
+                    console.log(`🚫 ${request.nickname} was turned away from room ${roomCode}`);
+                    callback(true);
+                    return;
+                }
+
+                const { room, player } = await RoomService.joinRoom(
+                    roomCode, request.nickname, request.socketId, request.deviceId, { approved: true }, request.spectator
+                ).catch(err => {
+                    // Filled up or closed while they waited; do not leave them hanging
+                    io.to(request.socketId).emit('room:join-denied');
+                    throw err;
+                });
+                // The waiting client rejoins with this session from wherever it is connected
+                const token = SessionTokenService.issue(room.code, player.oderId);
+                io.to(request.socketId).emit('room:admitted', room.code, { playerId: player.oderId, token });
+
+                if (!request.spectator) io.to(room.code).emit('player:joined', RoomService.toPlayer(player));
+                emitRoomUpdated(io, room);
+                console.log(`✅ ${request.nickname} was admitted to room ${room.code}`);
+                callback(true);
+            } catch (err) {
+                console.error('Admit error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Close Room
+        on(socket, 'room:close', async (_args, { fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                await closeRoom(io, roomCode);
+            } catch (err) {
+                console.error('Close room error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Start Game
+        on(socket, 'game:start', async (_args, { fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'spin'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                await startGame(io, roomCode);
+            } catch (err) {
+                console.error('Game start error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Spin Number
+        on(socket, 'game:spin', async ([spinId], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'spin'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const active = await GameService.getActiveSession(roomCode);
+                if (!active) {
+                    fail(socketError('GAME_NOT_STARTED'));
+                    return;
+                }
+                if (active.paused) {
+                    fail(socketError('GAME_PAUSED'));
+                    return;
+                }
+                if (getPendingClaims(active.claims).length > 0) {
+                    fail(socketError('CLAIM_PENDING'));
+                    return;
+                }
+
+                const result = await GameService.spinNumber(roomCode, spinId);
+                if (!result) {
+                    fail(socketError('NO_NUMBERS_LEFT'));
+                    return;
+                }
+
+                const { number, session, replayed } = result;
+                // A retried spin was already announced, just answer it again
+                if (replayed) {
+                    callback(number);
+                    return;
+                }
+
+                const folkName = (folkNames as any)[number] || `Số ${number}`;
+
+                io.to(roomCode).emit('game:number-called', {
+                    number,
+                    folkName,
+                    calledNumbers: session.calledNumbers.map(c => c.number),
+                    timestamp: Date.now(),
+                });
+
+                io.to(roomCode).emit('audio:play-sequence', number);
+                console.log(`🎯 Number called in ${roomCode}: ${number} - ${folkName}`);
+
+                // Auto Check Mode
+                const room = await RoomService.getRoom(roomCode);
+                if (room?.settings.checkMode === 'auto') {
+                    const { awards, session: updatedSession } = await GameService.checkAutoWinner(roomCode, room.settings);
+                    if (updatedSession) await announcePrizes(io, roomCode, updatedSession, awards);
+                }
+
+                callback(number);
+            } catch (err) {
+                console.error('Spin error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Pause Auto-Call (persisted on the session until game:resume)
+        on(socket, 'game:pause', async (_args, { fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'spin'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const session = await GameService.setPaused(roomCode, true);
+                if (!session) {
+                    fail(socketError('GAME_NOT_STARTED'));
+                    return;
+                }
+
+                await stopAutoCall(roomCode, io);
+                console.log(`⏸️ Game paused in ${roomCode}`);
+            } catch (err) {
+                console.error('Pause error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Resume Auto-Call
+        on(socket, 'game:resume', async (_args, { fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'spin'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const session = await GameService.setPaused(roomCode, false);
+                if (!session) {
+                    fail(socketError('GAME_NOT_STARTED'));
+                    return;
+                }
+
+                await resumeAutoCall(roomCode, io);
+                console.log(`▶️ Game resumed in ${roomCode}`);
+            } catch (err) {
+                console.error('Resume error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Change Auto-Call Speed (applies to the running schedule right away)
+        on(socket, 'game:set-speed', async ([speed], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'spin'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const room = await RoomService.setCallSpeed(roomCode, speed);
+                if (!room) {
+                    fail(socketError('ROOM_NOT_FOUND'));
+                    return;
+                }
+
+                await AutoCallService.setSpeed(roomCode, speed);
+                emitRoomUpdated(io, room);
+                await emitAutoCallStatus(io, roomCode);
+                callback(true);
+            } catch (err) {
+                console.error('Set speed error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Schedule, move or cancel the automatic start of the next game
+        on(socket, 'game:schedule', async ([startAt, minPlayers], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'spin'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const current = await RoomService.getRoom(roomCode);
+                if (current?.status === 'playing') {
+                    fail(socketError('GAME_IN_PROGRESS'));
+                    return;
+                }
+
+                const room = await RoomService.setSchedule(roomCode, startAt, minPlayers);
+                if (!room) {
+                    fail(socketError('ROOM_CLOSED'));
+                    return;
+                }
+
+                if (startAt) await AutoCallService.scheduleWake(roomCode, nextWake(startAt));
+                else await AutoCallService.cancelWake(roomCode);
+
+                emitRoomUpdated(io, room);
+                console.log(`📅 Room ${roomCode} ${startAt ? `starts at ${new Date(startAt).toISOString()}` : 'start unscheduled'}`);
+                callback(true);
+            } catch (err) {
+                console.error('Schedule error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Edit the room settings; once a game is under way only the live ones
+        on(socket, 'host:update-settings', async ([requested], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const current = await RoomService.getRoom(roomCode);
+                if (!current) {
+                    fail(socketError('ROOM_CLOSED'));
+                    return;
+                }
+
+                const currentSettings = RoomService.toRoom(current).settings;
+                const parsed = EditableRoomSettingsSchema.safeParse({ ...currentSettings, ...requested });
+                if (!parsed.success) {
+                    fail(socketError('INVALID_PAYLOAD'));
+                    return;
+                }
+
+                const changes = changedSettings(currentSettings, parsed.data);
+                const keys = Object.keys(changes) as (keyof EditableRoomSettings)[];
+                if (keys.length === 0) {
+                    callback(true);
+                    return;
+                }
+                if (current.status !== 'waiting' && !keys.every(isLiveSetting)) {
+                    fail(socketError('GAME_IN_PROGRESS'));
+                    return;
+                }
+                // Tickets already bought were drawn from the old number range
+                if (changes.gameFormat && await TicketService.countRoomTickets(roomCode) > 0) {
+                    fail(socketError('FORBIDDEN', 'Đã có vé trong phòng, không thể đổi loại vé'));
+                    return;
+                }
+
+                const room = await RoomService.updateSettings(roomCode, changes);
+                if (!room) {
+                    fail(socketError('ROOM_CLOSED'));
+                    return;
+                }
+
+                if (changes.callSpeed !== undefined) {
+                    await AutoCallService.setSpeed(roomCode, changes.callSpeed);
+                    await emitAutoCallStatus(io, roomCode);
+                }
+                emitRoomUpdated(io, room);
+                // A room made private leaves the lobby, which emitRoomUpdated no longer refreshes
+                if (changes.visibility === 'private') refreshLobby(io);
+
+                console.log(`⚙️ Room ${roomCode} settings changed: ${keys.join(', ')}`);
+                callback(true);
+            } catch (err) {
+                console.error('Update settings error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Reset Game
+        on(socket, 'game:reset', async (_args, { fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'spin'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const endedSessionId = await GameService.resetGame(roomCode);
+                await stopAutoCall(roomCode, io); // Stop if running
+                const room = await RoomService.getRoom(roomCode);
+
+                if (endedSessionId) await revealSeed(io, roomCode, endedSessionId);
+                io.to(roomCode).emit('game:reset');
+                if (room) emitRoomUpdated(io, room);
+
+                console.log(`🔄 Game reset in room ${roomCode}`);
+            } catch (err) {
+                console.error('Game reset error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Validate Ticket (host looks up a ticket by id or short code)
+        on(socket, 'host:validate-ticket', async ([ticketId], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'validate'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const [session, ticket, room] = await Promise.all([
+                    GameService.getActiveSession(roomCode),
+                    TicketService.findTicket(roomCode, ticketId),
+                    RoomService.getRoom(roomCode),
+                ]);
+
+                if (!ticket) {
+                    fail(socketError('TICKET_NOT_FOUND'));
+                    return;
+                }
+
+                const calledNums = session ? session.calledNumbers.map(c => c.number) : [];
+                // The prize being played for, as a claim would be approved against
+                const prize = session && room ? GameService.getCurrentPrize(session, room.settings) : null;
+                const result = validateTicket(ticket, calledNums, undefined, undefined, prize?.pattern ?? room?.settings.winPattern);
+                const owner = room?.players.find(p => p.oderId === ticket.ownerId);
+
+                callback({ ...result, nickname: owner?.nickname });
+            } catch (err) {
+                console.error('Validate ticket error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Validate Numbers (paper tickets: host types in the 5 numbers of a row)
+        on(socket, 'host:validate-numbers', async ([numbers], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'validate'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const session = await GameService.getActiveSession(roomCode);
+                const calledNums = session ? session.calledNumbers.map(c => c.number) : [];
+                callback(validateNumbers(numbers, calledNums));
+            } catch (err) {
+                console.error('Validate numbers error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Approve Winner (awards the current prize to this claim)
+        on(socket, 'host:approve-winner', async ([claim], { ack: callback, fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'validate'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const [session, ticket, room] = await Promise.all([
+                    GameService.getActiveSession(roomCode),
+                    TicketService.findTicket(roomCode, claim.ticketId),
+                    RoomService.getRoom(roomCode),
+                ]);
+
+                if (!room) {
+                    fail(socketError('ROOM_NOT_FOUND'));
+                    return;
+                }
+                if (!session) {
+                    fail(socketError(room.status === 'waiting' ? 'GAME_NOT_STARTED' : 'GAME_ENDED'));
+                    return;
+                }
+                if (!ticket) {
+                    fail(socketError('TICKET_NOT_FOUND'));
+                    return;
+                }
+
+                const prize = GameService.getCurrentPrize(session, room.settings);
+                if (!prize) {
+                    fail(socketError('GAME_ENDED'));
+                    return;
+                }
+
+                if (session.forfeitedTickets?.includes(ticket.id)) {
+                    fail(socketError('TICKET_FORFEITED'));
+                    return;
+                }
+
+                // Re-check on the server so an approval cannot crown an incomplete pattern
+                const calledNums = session.calledNumbers.map(c => c.number);
+                const result = validateTicket(ticket, calledNums, claim.grid, claim.row, prize.pattern);
+                if (!result.isWinner) {
+                    fail(socketError('NOT_A_WINNER'));
+                    return;
+                }
+
+                // The host may also approve a ticket they checked by hand, without a claim
+                const pending = findPendingClaim(session, claim);
+
+                // Everyone who completed the prize on the same call as this ticket shares the award
+                const atCall = findCompletionIndex(ticket, calledNums, prize.pattern);
+                const settled = atCall !== null
+                    ? await GameService.settlePrize(roomCode, session, room.settings, atCall)
+                    : null;
+                if (!settled) {
+                    if (pending) {
+                        await resolveClaim(io, roomCode, pending.claimId, 'expired', socket.data.oderId ?? 'auto');
+                        await resumeAutoCall(roomCode, io);
+                    }
+                    fail(socketError('PRIZE_TAKEN'));
+                    return;
+                }
+
+                if (pending) await resolveClaim(io, roomCode, pending.claimId, 'approved', socket.data.oderId ?? 'auto');
+                await announcePrizes(io, roomCode, settled.session, [settled.award]);
+                if (!settled.session.endedAt) await resumeAutoCall(roomCode, io);
+
+                callback(true);
+            } catch (err) {
+                console.error('Approve winner error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Reject Winner (the claim was not valid, the game goes on)
+        on(socket, 'host:reject-winner', async ([claim], { fail }) => {
+            const { roomCode } = socket.data;
+            if (!roomCode || !(await authorize(socket, 'validate'))) {
+                fail(socketError('FORBIDDEN'));
+                return;
+            }
+
+            try {
+                const session = await GameService.getActiveSession(roomCode);
+                const pending = session && findPendingClaim(session, claim);
+                if (pending) await resolveClaim(io, roomCode, pending.claimId, 'rejected', socket.data.oderId ?? 'auto');
+
+                // The claim held the auto-call, pick it back up now that play continues
+                await resumeAutoCall(roomCode, io);
+                console.log(`🚫 Claim rejected in ${roomCode}: ticket ${claim.ticketId}`);
+            } catch (err) {
+                console.error('Reject winner error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Create Tickets
+        on(socket, 'player:create-tickets', async ([count], { ack: callback, fail }) => {
+            const { roomCode, oderId } = socket.data;
+            if (!roomCode || !oderId || !(await authenticate(socket))) {
+                fail(socketError('NOT_AUTHENTICATED'));
+                return;
+            }
+
+            try {
+                const room = await RoomService.getRoom(roomCode);
+                if (!room) {
+                    fail(socketError('ROOM_NOT_FOUND'));
+                    return;
+                }
+                if (room.spectators?.some(s => s.oderId === oderId)) {
+                    fail(socketError('SPECTATOR'));
+                    return;
+                }
+
+                const tickets = await TicketService.createTickets(
+                    roomCode,
+                    oderId,
+                    count,
+                    room.settings.ticketsPerPlayer,
+                    getGameFormat(room.settings.gameFormat)
+                );
+                callback(tickets.map(t => TicketService.toLotoTicket(t)));
+            } catch (err) {
+                console.error('Ticket creation error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Mark Number (own tickets only, while a game is running)
+        on(socket, 'player:mark-number', async ([ticketId, grid, row, col], { ack: callback, fail }) => {
+            const { roomCode, oderId } = socket.data;
+            if (!roomCode || !oderId || !(await authenticate(socket))) {
+                fail(socketError('NOT_AUTHENTICATED'));
+                return;
+            }
+
+            try {
+                const action = await loadTicketAction(roomCode, oderId, ticketId);
+                if (isSocketError(action)) {
+                    fail(action);
+                    return;
+                }
+
+                const marked = await TicketService.markNumber(action.ticket.id, grid, row, col);
+                if (!marked) {
+                    fail(socketError('INVALID_CELL'));
+                    return;
+                }
+                callback(true);
+            } catch (err) {
+                console.error('Mark number error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Call Kinh (Bingo)
+        on(socket, 'player:call-kinh', async ([ticketId, claimedGrid, claimedRow], { ack: callback, fail }) => {
+            const { roomCode, oderId, nickname = 'Unknown' } = socket.data;
+            if (!roomCode || !oderId || !(await authenticate(socket))) {
+                fail(socketError('NOT_AUTHENTICATED'));
+                return;
+            }
+
+            // Ticket-wide patterns claim without a grid/row (sent as null)
+            const grid = claimedGrid ?? undefined;
+            const row = claimedRow ?? undefined;
+
+            try {
+                const action = await loadTicketAction(roomCode, oderId, ticketId);
+                if (isSocketError(action)) {
+                    fail(action);
+                    return;
+                }
+                const { ticket, session, room } = action;
+
+                const prize = GameService.getCurrentPrize(session, room.settings);
+                if (!prize) {
+                    fail(socketError('GAME_ENDED'));
+                    return;
+                }
+
+                const cooldown = await RateLimitService.getKinhCooldown(roomCode, oderId);
+                if (cooldown > 0) {
+                    fail(retryError('KINH_COOLDOWN', cooldown));
+                    return;
+                }
+
+                if (session.forfeitedTickets?.includes(ticketId)) {
+                    fail(socketError('TICKET_FORFEITED'));
+                    return;
+                }
+                if (getPendingClaims(session.claims).some(c => c.ticketId === ticketId)) {
+                    fail(socketError('CLAIM_PENDING'));
+                    return;
+                }
+
+                const calledNums = session.calledNumbers.map(c => c.number);
+                const result = validateTicket(ticket, calledNums, grid, row, prize.pattern);
+                const entry = { oderId, nickname, ticketId, prizeId: prize.id, grid, row, atCall: calledNums.length };
+
+                // A ticket that does not win is refused on the spot and the draw goes on
+                if (!result.isWinner) {
+                    const penalty = choosePenalty(room.settings.falseClaimPenalty, countStrikes(session.claims, oderId) + 1);
+                    const logged = await GameService.logClaim(roomCode, { ...entry, status: 'invalid', penalty, resolvedBy: 'auto' });
+                    if (logged) {
+                        io.to(roomCode).emit('game:claim-resolved', GameService.toClaimRecord(logged.claim));
+                        await penalize(io, roomCode, logged.claim);
+                    }
+                    callback(result);
+                    return;
+                }
+
+                // The claim holds the draw until it is decided
+                const logged = await GameService.logClaim(roomCode, { ...entry, status: 'pending' });
+                if (!logged) {
+                    fail(socketError('GAME_ENDED'));
+                    return;
+                }
+                const { claimId } = logged.claim;
+                await stopAutoCall(roomCode, io);
+
+                // Auto check mode decides right away; in manual mode the host does via host:approve-winner
+                if (room.settings.checkMode === 'auto') {
+                    const atCall = findCompletionIndex(ticket, calledNums, prize.pattern);
+                    const settled = atCall !== null
+                        ? await GameService.settlePrize(roomCode, session, room.settings, atCall)
+                        : null;
+                    await resolveClaim(io, roomCode, claimId, settled ? 'approved' : 'expired', 'auto');
+                    if (settled) await announcePrizes(io, roomCode, settled.session, [settled.award]);
+                    if (!settled?.session.endedAt) await resumeAutoCall(roomCode, io);
+                    callback(settled ? result : refusedClaim(socketError('PRIZE_TAKEN')));
+                    return;
+                }
+
+                io.to(roomCode).emit('player:kinh-called', {
+                    playerId: oderId,
+                    nickname,
+                    ticketId,
+                    claimId,
+                    grid,
+                    row
+                });
+
+                callback(result);
+            } catch (err) {
+                console.error('Check winner error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Emoji reaction for the whole room, refused to spectators and muted players
+        on(socket, 'player:react', async ([reaction], { ack: callback, fail }) => {
+            const { roomCode, oderId, nickname } = socket.data;
+            if (!roomCode || !oderId || !(await authenticate(socket))) {
+                fail(socketError('NOT_AUTHENTICATED'));
+                return;
+            }
+
+            try {
+                const room = await RoomService.getRoom(roomCode);
+                if (!room) {
+                    fail(socketError('ROOM_NOT_FOUND'));
+                    return;
+                }
+                if (room.spectators?.some(s => s.oderId === oderId)) {
+                    fail(socketError('SPECTATOR'));
+                    return;
+                }
+                if (isMuted(room, oderId)) {
+                    fail(socketError('MUTED'));
+                    return;
+                }
+
+                io.to(roomCode).emit('room:reaction', { playerId: oderId, nickname: nickname ?? '', reaction });
+                callback(true);
+            } catch (err) {
+                console.error('Reaction error:', err);
+                fail(toSocketError(err));
+            }
+        });
+
+        // Tab hidden / shown
+        on(socket, 'player:presence', async ([status], { fail }) => {
+            const { roomCode, oderId } = socket.data;
+            if (!roomCode || !oderId || !(await authenticate(socket))) {
+                fail(socketError('NOT_AUTHENTICATED'));
+                return;
+            }
+
+            try {
+                const changed = await PresenceService.report(roomCode, oderId, socket.id, status);
+                if (changed) emitPresence(io, roomCode, oderId, status);
+            } catch (err) {
+                console.error('Presence error:', err);
+            }
+        });
+
+        socket.on('disconnect', async () => {
+            console.log(`❌ Client disconnected: ${socket.id}`);
+
+            const { roomCode, oderId } = socket.data;
+
+            try {
+                await withdrawJoinRequest(io, socket);
+                if (!roomCode || !oderId) return;
+                await playerGone(io, roomCode, oderId, socket.id);
+            } catch (err) {
+                console.error('Presence disconnect error:', err);
+            }
         });
     });
 
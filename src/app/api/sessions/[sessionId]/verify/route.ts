@@ -0,0 +1,50 @@
+// Verify a session's draw against its revealed seed
+// GET /api/sessions/:sessionId/verify
+
+import { NextResponse } from 'next/server';
+import { connectDB } from '@/lib/mongodb';
+import { GameService } from '@/services/game.service';
+
+export async function GET(
+    _request: Request,
+    { params }: { params: Promise<{ sessionId: string }> }
+) {
+    const { sessionId } = await params;
+
+    try {
+        await connectDB();
+        const result = await GameService.verifySession(sessionId);
+
+        if (!result) {
+            return NextResponse.json({ error: 'Không tìm thấy ván chơi' }, { status: 404 });
+        }
+
+        const { session, verification } = result;
+        const calledNumbers = session.calledNumbers.map(c => c.number);
+
+        if (!verification) {
+            return NextResponse.json({
+                sessionId,
+                seedHash: session.seedHash ?? null,
+                calledNumbers,
+                error: session.endedAt
+                    ? 'Ván chơi này không dùng quay số có thể kiểm chứng'
+                    : 'Mã gốc sẽ được công bố khi ván chơi kết thúc',
+            }, { status: 409 });
+        }
+
+        return NextResponse.json({
+            sessionId,
+            roomCode: session.roomCode,
+            gameFormat: session.gameFormat,
+            seedHash: session.seedHash,
+            seed: session.seed,
+            calledNumbers,
+            ...verification,
+            isFair: verification.commitmentValid && verification.sequenceValid,
+        });
+    } catch (error) {
+        console.error('Verify session error:', error);
+        return NextResponse.json({ error: 'Lỗi khi kiểm tra ván chơi' }, { status: 500 });
+    }
+}
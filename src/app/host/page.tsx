@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { QRCodeSVG } from 'qrcode.react';
 import { useSocket } from '@/hooks/useSocket';
 import { useAudio } from '@/hooks/useAudio';
+import { useRoomTemplates } from '@/hooks/useRoomTemplates';
 import { NeonNumber } from '@/components/ui/NeonNumber';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { Confetti } from '@/components/ui/Confetti';
@@ -12,6 +13,49 @@ import { SpinWheel } from '@/components/host/SpinWheel';
 import { MasterBoard } from '@/components/host/MasterBoard';
 import { TicketValidator } from '@/components/host/TicketValidator';
 import { AudioController } from '@/components/host/AudioController';
+import { PrizeLadder } from '@/components/host/PrizeLadder';
+import { RoomSettingsPanel } from '@/components/host/RoomSettingsPanel';
+import { RoomTemplatePicker } from '@/components/host/RoomTemplatePicker';
+import { AutoCallCountdown } from '@/components/ui/AutoCallCountdown';
+import { StartCountdown } from '@/components/ui/StartCountdown';
+import { ReactionFeed } from '@/components/ui/ReactionFeed';
+import type { KinhClaim } from '@/lib/socket-events';
+import type { CoHostPermission, GameFormatId, PresenceStatus, Prize, PrizeAward, RoomInvite, RoomVisibility, TieMode, WinPatternType } from '@/lib/game-types';
+import { WIN_PATTERN_LABELS, formatMatchLocation } from '@/lib/win-patterns';
+import { DEFAULT_PRIZE_LADDER, describeTie, getPrizeLadder } from '@/lib/prizes';
+import { GAME_FORMATS, getGameFormat } from '@/lib/game-formats';
+import { CO_HOST_PERMISSIONS, CO_HOST_PERMISSION_LABELS, canModerate, getPermissions, getRole } from '@/lib/roles';
+import { DEFAULT_FALSE_CLAIM_PENALTY } from '@/lib/claims';
+import { DEFAULT_TEMPLATE_SETTINGS, type RoomTemplate } from '@/lib/room-templates';
+
+// Seconds between auto-called numbers the host can switch to mid-game
+const CALL_SPEED_OPTIONS = [5, 6, 7, 8, 9, 10, 15, 20, 30];
+
+// Invite links: how many players each lets in and for how long (minutes)
+const INVITE_USES_OPTIONS = [1, 5, 10, 25, 50];
+const INVITE_EXPIRY_OPTIONS: { minutes: number; label: string }[] = [
+    { minutes: 15, label: '15 phút' },
+    { minutes: 60, label: '1 giờ' },
+    { minutes: 24 * 60, label: '1 ngày' },
+];
+
+// Players besides the host a scheduled start can wait for
+const MIN_PLAYERS_OPTIONS = [0, 2, 5, 10, 20];
+
+// Epoch ms <-> the local time string of a datetime-local input
+function toLocalInput(at: number): string {
+    return new Date(at - new Date(at).getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): number | null {
+    return value ? new Date(value).getTime() : null;
+}
+
+const PRESENCE_STYLES: Record<PresenceStatus, { label: string; dot: string }> = {
+    online: { label: 'Đang online', dot: 'bg-[var(--neon-cyan)]' },
+    away: { label: 'Tạm vắng', dot: 'bg-[var(--neon-gold)]' },
+    offline: { label: 'Mất kết nối', dot: 'bg-[var(--text-muted)]' },
+};
 
 export default function HostPage() {
     const [nickname, setNickname] = useState('');
@@ -21,27 +65,69 @@ export default function HostPage() {
         maxTicketsPerPlayer: 4,
         autoCall: false,
         callSpeed: 5,
-        checkMode: 'manual' as 'manual' | 'auto'
+        checkMode: 'manual' as 'manual' | 'auto',
+        winPattern: { type: 'one-row' as WinPatternType },
+        prizes: [] as Prize[],
+        tieMode: 'split' as TieMode,
+        gameFormat: '1-90' as GameFormatId,
+        falseClaimPenalty: DEFAULT_FALSE_CLAIM_PENALTY,
+        requireApproval: false,
+        visibility: 'private' as RoomVisibility,
+        minPlayers: 0
     });
+    const [scheduleInput, setScheduleInput] = useState('');
+    const [scheduleError, setScheduleError] = useState<string | null>(null);
     const [showWinner, setShowWinner] = useState(false);
-    const [winnerInfo, setWinnerInfo] = useState<{ nickname: string; row: number } | null>(null);
+    const [winnerInfo, setWinnerInfo] = useState<PrizeAward | null>(null);
     const [isSpinning, setIsSpinning] = useState(false);
     const [showConfirmClose, setShowConfirmClose] = useState(false);
+    const [pendingClaims, setPendingClaims] = useState<KinhClaim[]>([]);
+    const [roomPassword, setRoomPassword] = useState('');
+    const [accessError, setAccessError] = useState<string | null>(null);
+    const [invite, setInvite] = useState<RoomInvite | null>(null);
+    const [inviteUses, setInviteUses] = useState(INVITE_USES_OPTIONS[0]);
+    const [inviteExpiry, setInviteExpiry] = useState(INVITE_EXPIRY_OPTIONS[1].minutes);
 
     const {
         isConnected,
+        connectionError,
         room,
         calledNumbers,
         lastNumber,
+        winners,
+        autoCall,
+        presence,
+        playerId,
+        joinRequests,
+        reactions,
         createRoom,
         startGame,
+        pauseGame,
+        resumeGame,
+        setCallSpeed,
+        scheduleStart,
+        updateSettings,
         spinNumber,
         resetGame,
         validateTicket,
         validateNumbers,
+        approveWinner,
+        rejectWinner,
+        setCoHost,
+        setRoomAccess,
+        createInvite,
+        answerJoinRequest,
+        kickPlayer,
+        banPlayer,
+        mutePlayer,
         onWinner,
+        onPrizeWon,
+        onKinhCalled,
+        onClaimResolved,
+        onGameReset,
+        onRejoined,
         onAudioPlaySequence,
-        leaveRoom,
+        closeRoom,
     } = useSocket();
 
     const {
@@ -60,15 +146,52 @@ export default function HostPage() {
         toggleMute,
     } = useAudio();
 
+    const { templates, saveTemplate, deleteTemplate, exportTemplates, importTemplates } = useRoomTemplates();
+
     // Handle winner event
     useEffect(() => {
         onWinner((data) => {
-            setWinnerInfo({ nickname: data.nickname, row: data.row });
+            setWinnerInfo(data);
             setShowWinner(true);
+            setPendingClaims([]);
             setTimeout(() => setShowWinner(false), 8000);
         });
     }, [onWinner]);
 
+    // Every prize gets its own announcement; claims raised for it are settled
+    useEffect(() => {
+        onPrizeWon((data) => {
+            setWinnerInfo(data);
+            setShowWinner(true);
+            setPendingClaims([]);
+            setTimeout(() => setShowWinner(false), 8000);
+        });
+    }, [onPrizeWon]);
+
+    // Track kinh claims waiting for the host's decision
+    useEffect(() => {
+        const isSameClaim = (a: KinhClaim, b: KinhClaim) => a.claimId && b.claimId
+            ? a.claimId === b.claimId
+            : a.ticketId === b.ticketId && a.grid === b.grid && a.row === b.row;
+
+        onKinhCalled((claim) => {
+            setPendingClaims(prev => prev.some(c => isSameClaim(c, claim)) ? prev : [...prev, claim]);
+        });
+
+        onClaimResolved((claim) => {
+            setPendingClaims(prev => prev.filter(c => c.claimId !== claim.claimId));
+        });
+
+        onGameReset(() => {
+            setPendingClaims([]);
+        });
+
+        // Back after a reload or a reconnect, or taking over as host: the claims still waiting
+        onRejoined((state) => {
+            setPendingClaims(state.pendingClaims ?? []);
+        });
+    }, [onKinhCalled, onClaimResolved, onGameReset, onRejoined]);
+
     // Handle audio sync
     useEffect(() => {
         onAudioPlaySequence((number) => {
@@ -78,19 +201,27 @@ export default function HostPage() {
         });
     }, [onAudioPlaySequence, isInitialized, playSpinSequence]);
 
-    // Create room handler
-    const handleCreateRoom = async () => {
+    // Create room handler; from the form, or straight from a template
+    const handleCreateRoom = async (template?: RoomTemplate) => {
         if (!nickname.trim()) return;
 
         setIsCreating(true);
         await initialize();
-        await createRoom(nickname.trim(), {
+        await createRoom(nickname.trim(), template ? template.settings : {
             audioMode,
-            ...roomSettings
+            ...roomSettings,
+            scheduledStart: fromLocalInput(scheduleInput)
         });
         setIsCreating(false);
     };
 
+    // Fill the form from a template; the schedule stays as entered
+    const applyTemplate = (template: RoomTemplate) => {
+        const { audioMode: templateAudioMode, ...settings } = template.settings;
+        setAudioMode(templateAudioMode);
+        setRoomSettings(prev => ({ ...prev, ...settings, prizes: settings.prizes ?? [] }));
+    };
+
     // Spin handler
     const handleSpin = useCallback(async () => {
         setIsSpinning(true);
@@ -111,13 +242,35 @@ export default function HostPage() {
     };
 
     const confirmCloseRoom = () => {
-        leaveRoom();
+        closeRoom();
         setShowConfirmClose(false);
     };
 
-    // Get room URL for QR code
+    // Change the password or approval; shows why if the server refused
+    const updateAccess = async (access: Parameters<typeof setRoomAccess>[0]) => {
+        setAccessError(null);
+        const { ok, error } = await setRoomAccess(access);
+        if (!ok) setAccessError(error?.message ?? null);
+        else setRoomPassword('');
+    };
+
+    const handleCreateInvite = async () => {
+        setAccessError(null);
+        const { invite: created, error } = await createInvite(inviteUses, inviteExpiry);
+        if (created) setInvite(created);
+        else setAccessError(error?.message ?? null);
+    };
+
+    // Schedule (or move) the start from the picker, or cancel it
+    const updateSchedule = async (startAt: number | null, minPlayers: number) => {
+        setScheduleError(null);
+        const { ok, error } = await scheduleStart(startAt, minPlayers);
+        if (!ok) setScheduleError(error?.message ?? null);
+    };
+
+    // Get room URL for QR code; the latest invite link once there is one
     const roomUrl = typeof window !== 'undefined' && room
-        ? `${window.location.origin}/play?code=${room.code}`
+        ? `${window.location.origin}/play?code=${room.code}${invite ? `&invite=${invite.token}` : ''}`
         : '';
 
     // Not connected or no room - show create form
@@ -176,6 +329,20 @@ export default function HostPage() {
                             </div>
                         </div>
 
+                        {/* Templates */}
+                        <div className="pt-4 border-t border-[var(--border)]">
+                            <RoomTemplatePicker
+                                templates={templates}
+                                canCreate={Boolean(nickname.trim()) && isConnected && !isCreating}
+                                onApply={applyTemplate}
+                                onCreate={handleCreateRoom}
+                                onSave={(name) => saveTemplate(name, { ...DEFAULT_TEMPLATE_SETTINGS, audioMode, ...roomSettings })}
+                                onDelete={deleteTemplate}
+                                onExport={exportTemplates}
+                                onImport={importTemplates}
+                            />
+                        </div>
+
                         {/* Quick Settings */}
                         <div className="space-y-4 pt-4 border-t border-[var(--border)]">
                             <h3 className="font-semibold text-[var(--text-secondary)]">Thiết lập nhanh</h3>
@@ -199,6 +366,31 @@ export default function HostPage() {
                                 </div>
                             </div>
 
+                            {/* Scheduled Start */}
+                            <div>
+                                <label className="block text-sm text-[var(--text-muted)] mb-2">
+                                    Hẹn giờ bắt đầu (không bắt buộc)
+                                </label>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <input
+                                        type="datetime-local"
+                                        className="input"
+                                        value={scheduleInput}
+                                        onChange={(e) => setScheduleInput(e.target.value)}
+                                    />
+                                    <select
+                                        className="input"
+                                        value={roomSettings.minPlayers}
+                                        disabled={!scheduleInput}
+                                        onChange={(e) => setRoomSettings(prev => ({ ...prev, minPlayers: Number(e.target.value) }))}
+                                    >
+                                        {MIN_PLAYERS_OPTIONS.map(n => (
+                                            <option key={n} value={n}>{n === 0 ? 'Không cần đủ người' : `Chờ ít nhất ${n} người`}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
                             {/* Auto Call */}
                             <div className="flex items-center justify-between">
                                 <span className="text-sm text-[var(--text-muted)]">Tự động gọi số</span>
@@ -260,15 +452,180 @@ export default function HostPage() {
                                     </button>
                                 </div>
                             </div>
+
+                            {/* Game Format */}
+                            <div>
+                                <label className="block text-sm text-[var(--text-muted)] mb-2">
+                                    Bộ số
+                                </label>
+                                <select
+                                    className="input"
+                                    value={roomSettings.gameFormat}
+                                    onChange={(e) => setRoomSettings(prev => ({
+                                        ...prev,
+                                        gameFormat: e.target.value as GameFormatId
+                                    }))}
+                                >
+                                    {Object.values(GAME_FORMATS).map(format => (
+                                        <option key={format.id} value={format.id}>{format.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {/* Win Pattern */}
+                            <div>
+                                <label className="block text-sm text-[var(--text-muted)] mb-2">
+                                    Luật kinh
+                                </label>
+                                <select
+                                    className="input"
+                                    value={roomSettings.winPattern.type}
+                                    onChange={(e) => setRoomSettings(prev => ({
+                                        ...prev,
+                                        winPattern: { type: e.target.value as WinPatternType }
+                                    }))}
+                                >
+                                    {(Object.keys(WIN_PATTERN_LABELS) as WinPatternType[])
+                                        .filter(type => type !== 'custom')
+                                        .map(type => (
+                                            <option key={type} value={type}>{WIN_PATTERN_LABELS[type]}</option>
+                                        ))}
+                                </select>
+                            </div>
+
+                            {/* Prize Ladder */}
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm text-[var(--text-muted)]">
+                                    Nhiều giải (hàng → hai hàng → kín bảng)
+                                </span>
+                                <button
+                                    onClick={() => setRoomSettings(prev => ({
+                                        ...prev,
+                                        prizes: prev.prizes.length > 0 ? [] : DEFAULT_PRIZE_LADDER
+                                    }))}
+                                    className={`relative w-12 h-6 rounded-full transition-colors ${roomSettings.prizes.length > 0 ? 'bg-[var(--neon-gold)]' : 'bg-[var(--surface-hover)]'
+                                        }`}
+                                >
+                                    <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${roomSettings.prizes.length > 0 ? 'translate-x-6' : ''
+                                        }`} />
+                                </button>
+                            </div>
+
+                            {/* Tie Mode */}
+                            <div>
+                                <label className="block text-sm text-[var(--text-muted)] mb-2">
+                                    Trùng số
+                                </label>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <button
+                                        onClick={() => setRoomSettings(prev => ({ ...prev, tieMode: 'split' }))}
+                                        className={`p-2 rounded-lg border text-sm transition-all ${roomSettings.tieMode === 'split'
+                                            ? 'bg-[var(--surface-hover)] border-[var(--neon-blue)] text-[var(--neon-blue)]'
+                                            : 'bg-[var(--surface)] border-[var(--border)] text-[var(--text-secondary)]'
+                                            }`}
+                                    >
+                                        🤝 Chia giải
+                                    </button>
+                                    <button
+                                        onClick={() => setRoomSettings(prev => ({ ...prev, tieMode: 'tiebreak' }))}
+                                        className={`p-2 rounded-lg border text-sm transition-all ${roomSettings.tieMode === 'tiebreak'
+                                            ? 'bg-[var(--surface-hover)] border-[var(--neon-purple)] text-[var(--neon-purple)]'
+                                            : 'bg-[var(--surface)] border-[var(--border)] text-[var(--text-secondary)]'
+                                            }`}
+                                    >
+                                        🎲 Bốc thăm
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Lobby Listing */}
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm text-[var(--text-muted)]">
+                                    Hiện phòng trong sảnh công khai
+                                </span>
+                                <button
+                                    onClick={() => setRoomSettings(prev => ({
+                                        ...prev,
+                                        visibility: prev.visibility === 'public' ? 'private' : 'public'
+                                    }))}
+                                    className={`relative w-12 h-6 rounded-full transition-colors ${roomSettings.visibility === 'public' ? 'bg-[var(--neon-gold)]' : 'bg-[var(--surface-hover)]'
+                                        }`}
+                                >
+                                    <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${roomSettings.visibility === 'public' ? 'translate-x-6' : ''
+                                        }`} />
+                                </button>
+                            </div>
+
+                            {/* Approval Queue */}
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm text-[var(--text-muted)]">
+                                    Duyệt người chơi trước khi vào phòng
+                                </span>
+                                <button
+                                    onClick={() => setRoomSettings(prev => ({ ...prev, requireApproval: !prev.requireApproval }))}
+                                    className={`relative w-12 h-6 rounded-full transition-colors ${roomSettings.requireApproval ? 'bg-[var(--neon-gold)]' : 'bg-[var(--surface-hover)]'
+                                        }`}
+                                >
+                                    <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${roomSettings.requireApproval ? 'translate-x-6' : ''
+                                        }`} />
+                                </button>
+                            </div>
+
+                            {/* False Claim Penalty */}
+                            <div>
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-sm text-[var(--text-muted)]">
+                                        Kinh sai phải chờ mới được kinh lại
+                                    </span>
+                                    <button
+                                        onClick={() => setRoomSettings(prev => ({
+                                            ...prev,
+                                            falseClaimPenalty: { ...prev.falseClaimPenalty, cooldown: !prev.falseClaimPenalty.cooldown }
+                                        }))}
+                                        className={`relative w-12 h-6 rounded-full transition-colors ${roomSettings.falseClaimPenalty.cooldown ? 'bg-[var(--neon-gold)]' : 'bg-[var(--surface-hover)]'
+                                            }`}
+                                    >
+                                        <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${roomSettings.falseClaimPenalty.cooldown ? 'translate-x-6' : ''
+                                            }`} />
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    {([
+                                        ['forfeitAfter', 'Loại vé sau'],
+                                        ['kickAfter', 'Mời ra sau'],
+                                    ] as const).map(([key, label]) => (
+                                        <label key={key} className="text-xs text-[var(--text-muted)]">
+                                            {label}
+                                            <select
+                                                className="input mt-1"
+                                                value={roomSettings.falseClaimPenalty[key]}
+                                                onChange={(e) => setRoomSettings(prev => ({
+                                                    ...prev,
+                                                    falseClaimPenalty: { ...prev.falseClaimPenalty, [key]: Number(e.target.value) }
+                                                }))}
+                                            >
+                                                <option value={0}>Không bao giờ</option>
+                                                {[1, 2, 3, 5].map(n => (
+                                                    <option key={n} value={n}>{n} lần kinh sai</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
                         </div>
 
                         <button
                             className="btn btn-primary btn-lg w-full"
-                            onClick={handleCreateRoom}
+                            onClick={() => handleCreateRoom()}
                             disabled={!nickname.trim() || isCreating || !isConnected}
                         >
                             {!isConnected ? 'Đang kết nối...' : isCreating ? 'Đang tạo phòng...' : '🎪 Tạo Phòng'}
                         </button>
+
+                        {connectionError && (
+                            <p className="text-red-400 text-sm text-center">{connectionError.message}</p>
+                        )}
                     </div>
 
                     <div className="mt-6 pt-6 border-t border-[var(--border)]">
@@ -284,10 +641,43 @@ export default function HostPage() {
         );
     }
 
+    const gameFormat = getGameFormat(room.settings.gameFormat);
+    const isHost = getRole(room, playerId) === 'host';
+    const permissions = getPermissions(room, playerId);
+    const canSpin = permissions.includes('spin');
+    const canValidate = permissions.includes('validate');
+    const canKick = permissions.includes('kick');
+
+    // Toggle one permission of a player, appointing or removing them as co-host
+    const toggleCoHostPermission = (targetId: string, permission: CoHostPermission) => {
+        const current = getPermissions(room, targetId);
+        const next = current.includes(permission)
+            ? current.filter(p => p !== permission)
+            : [...current, permission];
+        setCoHost(targetId, next);
+    };
+
+    // Restored into a room where this player has no host powers (e.g. a co-host was removed)
+    if (permissions.length === 0) {
+        return (
+            <div className="min-h-screen flex items-center justify-center p-4">
+                <GlassCard className="w-full max-w-md text-center">
+                    <p className="text-[var(--text-secondary)] mb-4">
+                        Bạn không còn quyền điều khiển phòng {room.code}
+                    </p>
+                    <a href={`/play?code=${room.code}`} className="btn btn-primary">
+                        Về màn hình người chơi
+                    </a>
+                </GlassCard>
+            </div>
+        );
+    }
+
     // Host dashboard
     return (
         <div className="min-h-screen p-4">
             <Confetti active={showWinner} />
+            <ReactionFeed reactions={reactions} />
 
             {/* Confirm Close Modal */}
             <AnimatePresence>
@@ -339,20 +729,24 @@ export default function HostPage() {
                 </div>
 
                 <div className="flex gap-2">
-                    {room.status === 'waiting' && (
+                    {canSpin && room.status === 'waiting' && (
                         <button className="btn btn-primary" onClick={startGame}>
                             🎮 Bắt đầu
                         </button>
                     )}
-                    <button className="btn btn-secondary" onClick={resetGame}>
-                        🔄 Ván mới
-                    </button>
-                    <button
-                        className="btn btn-sm btn-danger ml-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 border-red-500/50"
-                        onClick={handleCloseRoom}
-                    >
-                        ⛔ Đóng phòng
-                    </button>
+                    {canSpin && (
+                        <button className="btn btn-secondary" onClick={resetGame}>
+                            🔄 Ván mới
+                        </button>
+                    )}
+                    {isHost && (
+                        <button
+                            className="btn btn-sm btn-danger ml-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 border-red-500/50"
+                            onClick={handleCloseRoom}
+                        >
+                            ⛔ Đóng phòng
+                        </button>
+                    )}
                 </div>
             </header>
 
@@ -376,20 +770,88 @@ export default function HostPage() {
                         <div className="mt-8">
                             <SpinWheel
                                 onSpin={handleSpin}
-                                disabled={room.status !== 'playing'}
+                                disabled={!canSpin || room.status !== 'playing'}
                                 isSpinning={isSpinning}
                             />
                         </div>
 
-                        {room.status === 'waiting' && (
+                        {room.status === 'waiting' && !room.settings.scheduledStart && (
                             <p className="mt-4 text-[var(--text-muted)]">
                                 Nhấn &quot;Bắt đầu&quot; để chơi
                             </p>
                         )}
+
+                        {/* Scheduled Start */}
+                        {room.status !== 'playing' && (
+                            <>
+                                <StartCountdown
+                                    startAt={room.settings.scheduledStart}
+                                    minPlayers={room.settings.minPlayers}
+                                    playerCount={room.players.filter(p => p.oderId !== room.hostId).length}
+                                    className="mt-4"
+                                />
+                                {canSpin && (
+                                    <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+                                        <input
+                                            type="datetime-local"
+                                            className="input py-1 w-auto"
+                                            value={room.settings.scheduledStart ? toLocalInput(room.settings.scheduledStart) : ''}
+                                            onChange={(e) => {
+                                                const startAt = fromLocalInput(e.target.value);
+                                                if (startAt) updateSchedule(startAt, room.settings.minPlayers);
+                                            }}
+                                        />
+                                        <select
+                                            className="input py-1 w-auto"
+                                            value={room.settings.minPlayers}
+                                            disabled={!room.settings.scheduledStart}
+                                            onChange={(e) => updateSchedule(room.settings.scheduledStart, Number(e.target.value))}
+                                        >
+                                            {MIN_PLAYERS_OPTIONS.map(n => (
+                                                <option key={n} value={n}>{n === 0 ? 'Không cần đủ người' : `Chờ ${n} người`}</option>
+                                            ))}
+                                        </select>
+                                        {room.settings.scheduledStart && (
+                                            <button className="btn btn-secondary btn-sm" onClick={() => updateSchedule(null, room.settings.minPlayers)}>
+                                                Hủy hẹn giờ
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {scheduleError && <p className="mt-2 text-red-400 text-xs">{scheduleError}</p>}
+                            </>
+                        )}
+
+                        {/* Auto-Call Controls */}
+                        {room.status === 'playing' && room.settings.autoCall && (
+                            <div className="mt-4 flex flex-col items-center gap-3">
+                                <AutoCallCountdown status={autoCall} />
+                                {canSpin && <div className="flex items-center gap-3">
+                                    {autoCall?.state === 'paused' ? (
+                                        <button className="btn btn-primary btn-sm" onClick={resumeGame}>
+                                            ▶️ Tiếp tục
+                                        </button>
+                                    ) : (
+                                        <button className="btn btn-secondary btn-sm" onClick={pauseGame}>
+                                            ⏸️ Tạm dừng
+                                        </button>
+                                    )}
+                                    <select
+                                        className="input py-1 w-auto"
+                                        value={room.settings.callSpeed}
+                                        onChange={(e) => setCallSpeed(parseInt(e.target.value, 10))}
+                                    >
+                                        {CALL_SPEED_OPTIONS.map(speed => (
+                                            <option key={speed} value={speed}>{speed} giây/số</option>
+                                        ))}
+                                    </select>
+                                </div>}
+                            </div>
+                        )}
                     </GlassCard>
 
                     {/* Master Board */}
-                    <MasterBoard calledNumbers={calledNumbers} lastNumber={lastNumber} />
+                    <MasterBoard calledNumbers={calledNumbers} lastNumber={lastNumber} format={gameFormat} />
                 </div>
 
                 {/* Sidebar */}
@@ -408,8 +870,119 @@ export default function HostPage() {
                         <p className="text-2xl font-mono font-bold text-[var(--neon-gold)]">
                             {room.code}
                         </p>
+                        {invite && (
+                            <p className="text-xs text-[var(--text-muted)] mt-2">
+                                Mã QR là link mời: {invite.maxUses} lượt, hết hạn lúc {new Date(invite.expiresAt).toLocaleTimeString('vi-VN')}
+                            </p>
+                        )}
+
+                        {/* Room access: password and approval for the host, invites for moderators */}
+                        {canKick && (
+                            <div className="mt-4 pt-4 border-t border-[var(--border)] space-y-3 text-left">
+                                {isHost && (
+                                    <>
+                                        {room.hasPassword ? (
+                                            <div className="flex items-center justify-between text-sm">
+                                                <span>🔒 Phòng có mật khẩu</span>
+                                                <button className="btn btn-secondary btn-sm" onClick={() => updateAccess({ password: null })}>
+                                                    Bỏ mật khẩu
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div className="flex gap-2">
+                                                <input
+                                                    type="password"
+                                                    value={roomPassword}
+                                                    onChange={(e) => setRoomPassword(e.target.value)}
+                                                    className="input py-1"
+                                                    placeholder="Mật khẩu (ít nhất 4 ký tự)"
+                                                    maxLength={64}
+                                                />
+                                                <button
+                                                    className="btn btn-secondary btn-sm"
+                                                    onClick={() => updateAccess({ password: roomPassword })}
+                                                    disabled={roomPassword.length < 4}
+                                                >
+                                                    Đặt
+                                                </button>
+                                            </div>
+                                        )}
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-sm text-[var(--text-muted)]">Duyệt người vào phòng</span>
+                                            <button
+                                                onClick={() => updateAccess({ requireApproval: !room.settings.requireApproval })}
+                                                className={`relative w-12 h-6 rounded-full transition-colors ${room.settings.requireApproval ? 'bg-[var(--neon-gold)]' : 'bg-[var(--surface-hover)]'
+                                                    }`}
+                                            >
+                                                <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${room.settings.requireApproval ? 'translate-x-6' : ''
+                                                    }`} />
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                                <div className="flex gap-2">
+                                    <select className="input py-1" value={inviteUses} onChange={(e) => setInviteUses(Number(e.target.value))}>
+                                        {INVITE_USES_OPTIONS.map(uses => (
+                                            <option key={uses} value={uses}>{uses} lượt</option>
+                                        ))}
+                                    </select>
+                                    <select className="input py-1" value={inviteExpiry} onChange={(e) => setInviteExpiry(Number(e.target.value))}>
+                                        {INVITE_EXPIRY_OPTIONS.map(({ minutes, label }) => (
+                                            <option key={minutes} value={minutes}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <button className="btn btn-secondary btn-sm w-full" onClick={handleCreateInvite}>
+                                    ✉️ Tạo link mời
+                                </button>
+                                {accessError && <p className="text-red-400 text-xs text-center">{accessError}</p>}
+                            </div>
+                        )}
                     </GlassCard>
 
+                    {/* Room Settings */}
+                    {isHost && (
+                        <RoomSettingsPanel
+                            settings={room.settings}
+                            status={room.status}
+                            onUpdate={updateSettings}
+                        />
+                    )}
+
+                    {/* Join Requests */}
+                    {canKick && joinRequests.length > 0 && (
+                        <GlassCard>
+                            <h3 className="text-lg font-semibold mb-4 text-[var(--text-secondary)]">
+                                Đang chờ vào phòng ({joinRequests.length})
+                            </h3>
+                            <div className="space-y-2">
+                                {joinRequests.map(request => (
+                                    <div key={request.requestId} className="flex items-center gap-2 text-sm">
+                                        <span>{request.spectator ? '👀' : '🚪'} {request.nickname}</span>
+                                        {request.spectator && <span className="text-xs text-[var(--text-muted)]">chỉ xem</span>}
+                                        <span className="ml-auto flex gap-1">
+                                            <button
+                                                className="btn btn-primary btn-sm"
+                                                onClick={() => answerJoinRequest(request.requestId, true)}
+                                            >
+                                                Cho vào
+                                            </button>
+                                            <button
+                                                className="btn btn-secondary btn-sm"
+                                                onClick={() => answerJoinRequest(request.requestId, false)}
+                                            >
+                                                Từ chối
+                                            </button>
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </GlassCard>
+                    )}
+
+                    {/* Prizes */}
+                    <PrizeLadder prizes={getPrizeLadder(room.settings)} winners={winners} />
+
                     {/* Audio Controller */}
                     <AudioController
                         isBgmPlaying={isBgmPlaying}
@@ -426,30 +999,137 @@ export default function HostPage() {
                     />
 
                     {/* Ticket Validator */}
-                    <TicketValidator
-                        onValidateTicket={validateTicket}
-                        onValidateNumbers={validateNumbers}
-                    />
+                    {canValidate && (
+                        <TicketValidator
+                            claims={pendingClaims}
+                            format={gameFormat}
+                            onValidateTicket={validateTicket}
+                            onValidateNumbers={validateNumbers}
+                            onApprove={approveWinner}
+                            onReject={rejectWinner}
+                        />
+                    )}
 
                     {/* Players List */}
                     <GlassCard>
                         <h3 className="text-lg font-semibold mb-4 text-[var(--text-secondary)]">
-                            Người chơi ({room.players.length})
+                            Người chơi ({room.players.filter(p => presence[p.oderId] === 'online').length}/{room.players.length} online)
                         </h3>
-                        <div className="space-y-2 max-h-40 overflow-y-auto">
-                            {room.players.map((player, index) => (
-                                <div
-                                    key={player.oderId}
-                                    className="flex items-center gap-2 text-sm"
-                                >
-                                    <span className={index === 0 ? 'text-[var(--neon-gold)]' : ''}>
-                                        {index === 0 ? '👑' : '👤'}
-                                    </span>
-                                    <span>{player.nickname}</span>
-                                </div>
-                            ))}
+                        <div className="space-y-2 max-h-64 overflow-y-auto">
+                            {room.players.map((player) => {
+                                const status = PRESENCE_STYLES[presence[player.oderId] ?? 'offline'];
+                                const playerRole = getRole(room, player.oderId);
+                                const granted = getPermissions(room, player.oderId);
+                                const muted = room.muted.includes(player.oderId);
+                                const moderatable = canKick && playerId !== null && canModerate(room, playerId, player.oderId);
+                                return (
+                                    <div key={player.oderId} className="text-sm">
+                                        <div className="flex items-center gap-2">
+                                            <span className={playerRole === 'host' ? 'text-[var(--neon-gold)]' : ''}>
+                                                {playerRole === 'host' ? '👑' : playerRole === 'co-host' ? '🎖️' : '👤'}
+                                            </span>
+                                            <span className={presence[player.oderId] === 'online' ? '' : 'text-[var(--text-muted)]'}>
+                                                {player.nickname}
+                                            </span>
+                                            {muted && <span title="Đã tắt tiếng">🔇</span>}
+                                            <span className="ml-auto flex items-center gap-1 text-xs text-[var(--text-muted)]">
+                                                <span className={`w-2 h-2 rounded-full ${status.dot}`} />
+                                                {status.label}
+                                            </span>
+                                            {moderatable && (
+                                                <span className="flex gap-1">
+                                                    <button
+                                                        onClick={() => mutePlayer(player.oderId, !muted)}
+                                                        title={muted ? 'Bật tiếng' : 'Tắt tiếng'}
+                                                        className="px-1 rounded hover:bg-[var(--surface-hover)]"
+                                                    >
+                                                        {muted ? '🔊' : '🔇'}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => kickPlayer(player.oderId)}
+                                                        title="Mời ra khỏi phòng"
+                                                        className="px-1 rounded hover:bg-[var(--surface-hover)]"
+                                                    >
+                                                        🚪
+                                                    </button>
+                                                    {isHost && (
+                                                        <button
+                                                            onClick={() => {
+                                                                if (window.confirm(`Cấm ${player.nickname} vào lại phòng?`)) banPlayer(player.oderId);
+                                                            }}
+                                                            title="Cấm vào phòng"
+                                                            className="px-1 rounded hover:bg-[var(--surface-hover)]"
+                                                        >
+                                                            ⛔
+                                                        </button>
+                                                    )}
+                                                </span>
+                                            )}
+                                        </div>
+
+                                        {/* Co-host permissions, only the host hands them out */}
+                                        {isHost && playerRole !== 'host' && (
+                                            <div className="flex gap-1 mt-1 ml-6">
+                                                {CO_HOST_PERMISSIONS.map(permission => (
+                                                    <button
+                                                        key={permission}
+                                                        onClick={() => toggleCoHostPermission(player.oderId, permission)}
+                                                        className={`px-2 py-0.5 rounded border text-xs transition-all ${granted.includes(permission)
+                                                            ? 'bg-[var(--surface-hover)] border-[var(--neon-gold)] text-[var(--neon-gold)]'
+                                                            : 'bg-[var(--surface)] border-[var(--border)] text-[var(--text-muted)]'
+                                                            }`}
+                                                    >
+                                                        {CO_HOST_PERMISSION_LABELS[permission]}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
                         </div>
                     </GlassCard>
+
+                    {/* Spectators */}
+                    {room.spectators.length > 0 && (
+                        <GlassCard>
+                            <h3 className="text-lg font-semibold mb-4 text-[var(--text-secondary)]">
+                                Khán giả ({room.spectators.length})
+                            </h3>
+                            <div className="space-y-2 max-h-48 overflow-y-auto">
+                                {room.spectators.map(spectator => (
+                                    <div key={spectator.oderId} className="flex items-center gap-2 text-sm">
+                                        <span>👀</span>
+                                        <span className={presence[spectator.oderId] === 'online' ? '' : 'text-[var(--text-muted)]'}>
+                                            {spectator.nickname}
+                                        </span>
+                                        {canKick && (
+                                            <span className="ml-auto flex gap-1">
+                                                <button
+                                                    onClick={() => kickPlayer(spectator.oderId)}
+                                                    title="Mời ra khỏi phòng"
+                                                    className="px-1 rounded hover:bg-[var(--surface-hover)]"
+                                                >
+                                                    🚪
+                                                </button>
+                                                {isHost && (
+                                                    <button
+                                                        onClick={() => {
+                                                            if (window.confirm(`Cấm ${spectator.nickname} vào lại phòng?`)) banPlayer(spectator.oderId);
+                                                        }}
+                                                        title="Cấm vào phòng"
+                                                        className="px-1 rounded hover:bg-[var(--surface-hover)]"
+                                                    >
+                                                        ⛔
+                                                    </button>
+                                                )}
+                                            </span>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </GlassCard>
+                    )}
                 </div>
             </div>
 
@@ -470,12 +1150,16 @@ export default function HostPage() {
                         >
                             <p className="text-6xl mb-4">🎉</p>
                             <h2 className="text-4xl font-bold text-gradient mb-4">KINH!</h2>
+                            <p className="text-xl text-[var(--text-secondary)] mb-2">{winnerInfo.prizeName}</p>
                             <p className="text-2xl text-[var(--neon-gold)]">
-                                {winnerInfo.nickname}
+                                {winnerInfo.winners.map(w => w.nickname).join(', ')}
                             </p>
                             <p className="text-lg text-[var(--text-secondary)] mt-2">
-                                Thắng hàng {winnerInfo.row + 1}!
+                                {WIN_PATTERN_LABELS[winnerInfo.winners[0].pattern]} • {formatMatchLocation(winnerInfo.winners[0].grid, winnerInfo.winners[0].row)}
                             </p>
+                            {winnerInfo.tie && (
+                                <p className="text-sm text-[var(--text-muted)] mt-2">{describeTie(winnerInfo)}</p>
+                            )}
                         </motion.div>
                     </motion.div>
                 )}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useLobby } from '@/hooks/useLobby';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { DEFAULT_LOBBY_FILTERS, filterLobbyRooms, type LobbyFilters } from '@/lib/lobby';
+import type { LobbyRoom } from '@/lib/game-types';
+
+const STATUS_LABELS: Record<LobbyRoom['status'], { label: string; className: string }> = {
+    waiting: { label: 'Đang chờ', className: 'text-[var(--neon-cyan)] border-[var(--neon-cyan)]' },
+    playing: { label: 'Đang chơi', className: 'text-[var(--neon-gold)] border-[var(--neon-gold)]' },
+    finished: { label: 'Đã xong ván', className: 'text-[var(--text-muted)] border-[var(--border)]' },
+};
+
+const AUDIO_MODE_LABELS: Record<LobbyRoom['audioMode'], string> = {
+    singing: '🎤 Hát Lô Tô',
+    calling: '📢 Chỉ Gọi Số',
+};
+
+function formatTime(date: Date | string): string {
+    return new Date(date).toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function LobbyPage() {
+    const { rooms, isLoading, connectionError } = useLobby();
+    const [filters, setFilters] = useState<LobbyFilters>(DEFAULT_LOBBY_FILTERS);
+
+    const shown = filterLobbyRooms(rooms, filters);
+    const setFilter = <K extends keyof LobbyFilters>(key: K, value: LobbyFilters[K]) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+    };
+
+    return (
+        <div className="min-h-screen p-4 max-w-4xl mx-auto">
+            <header className="flex items-center justify-between mb-6">
+                <Link href="/" className="text-xl font-bold text-gradient">Gánh Hát Lô Tô</Link>
+                <Link href="/host" className="btn btn-primary btn-sm">👑 Tạo Phòng</Link>
+            </header>
+
+            <h1 className="text-3xl font-bold mb-2">🌐 Sảnh Chờ</h1>
+            <p className="text-[var(--text-secondary)] mb-6">
+                Các phòng đang mở công khai, cập nhật trực tiếp
+            </p>
+
+            {/* Filters */}
+            <GlassCard className="mb-6" hover={false}>
+                <div className="grid gap-3 md:grid-cols-3">
+                    <input
+                        type="text"
+                        value={filters.search}
+                        onChange={(e) => setFilter('search', e.target.value)}
+                        className="input"
+                        placeholder="Tìm chủ phòng hoặc mã phòng..."
+                    />
+                    <select
+                        className="input"
+                        value={filters.status}
+                        onChange={(e) => setFilter('status', e.target.value as LobbyFilters['status'])}
+                    >
+                        <option value="all">Mọi trạng thái</option>
+                        <option value="waiting">Đang chờ</option>
+                        <option value="playing">Đang chơi</option>
+                    </select>
+                    <select
+                        className="input"
+                        value={filters.audioMode}
+                        onChange={(e) => setFilter('audioMode', e.target.value as LobbyFilters['audioMode'])}
+                    >
+                        <option value="all">Mọi chế độ hô</option>
+                        <option value="singing">Hát Lô Tô</option>
+                        <option value="calling">Chỉ Gọi Số</option>
+                    </select>
+                </div>
+                <div className="flex flex-wrap gap-4 mt-3 text-sm text-[var(--text-secondary)]">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={filters.hasSeats}
+                            onChange={(e) => setFilter('hasSeats', e.target.checked)}
+                        />
+                        Còn chỗ
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={filters.openOnly}
+                            onChange={(e) => setFilter('openOnly', e.target.checked)}
+                        />
+                        Vào tự do (không mật khẩu, không cần duyệt)
+                    </label>
+                </div>
+            </GlassCard>
+
+            {/* Rooms */}
+            {connectionError ? (
+                <p className="text-center text-red-400">{connectionError.message}</p>
+            ) : isLoading ? (
+                <p className="text-center text-[var(--text-muted)]">Đang tải danh sách phòng...</p>
+            ) : shown.length === 0 ? (
+                <p className="text-center text-[var(--text-muted)]">
+                    {rooms.length === 0 ? 'Chưa có phòng công khai nào' : 'Không có phòng nào khớp bộ lọc'}
+                </p>
+            ) : (
+                <div className="grid gap-4 md:grid-cols-2">
+                    <AnimatePresence>
+                        {shown.map(room => {
+                            const status = STATUS_LABELS[room.status];
+                            const full = room.playerCount >= room.maxPlayers;
+                            return (
+                                <motion.div
+                                    key={room.code}
+                                    layout
+                                    initial={{ opacity: 0, y: 10 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    exit={{ opacity: 0, scale: 0.95 }}
+                                >
+                                    <GlassCard>
+                                        <div className="flex items-center justify-between mb-2">
+                                            <span className="font-semibold">👑 {room.hostName}</span>
+                                            <span className={`px-2 py-0.5 rounded border text-xs ${status.className}`}>
+                                                {status.label}
+                                            </span>
+                                        </div>
+                                        <div className="text-sm text-[var(--text-secondary)] space-y-1">
+                                            <p>
+                                                👥 {room.playerCount}/{room.maxPlayers} người chơi
+                                                {room.spectatorCount > 0 && ` • 👀 ${room.spectatorCount} khán giả`}
+                                                {room.hasPassword && ' • 🔒 Có mật khẩu'}
+                                                {room.requireApproval && ' • 🚪 Cần duyệt'}
+                                            </p>
+                                            <p>{AUDIO_MODE_LABELS[room.audioMode]}</p>
+                                            <p className="text-[var(--text-muted)]">
+                                                {room.startedAt
+                                                    ? `Ván bắt đầu lúc ${formatTime(room.startedAt)}`
+                                                    : room.scheduledStart
+                                                        ? `📅 Hẹn bắt đầu ${new Date(room.scheduledStart).toLocaleString('vi-VN', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: '2-digit' })}`
+                                                        : `Mở phòng lúc ${formatTime(room.createdAt)}`}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center justify-between mt-4">
+                                            <span className="font-mono text-[var(--neon-gold)]">{room.code}</span>
+                                            {full ? (
+                                                <Link href={`/play?code=${room.code}`} className="btn btn-secondary btn-sm">
+                                                    👀 Vào Xem
+                                                </Link>
+                                            ) : (
+                                                <Link href={`/play?code=${room.code}`} className="btn btn-primary btn-sm">
+                                                    🎟️ Vào Phòng
+                                                </Link>
+                                            )}
+                                        </div>
+                                    </GlassCard>
+                                </motion.div>
+                            );
+                        })}
+                    </AnimatePresence>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -39,7 +39,7 @@ export default function HomePage() {
       </motion.div>
 
       {/* Action Cards */}
-      <div className="grid gap-6 md:grid-cols-2 w-full max-w-2xl">
+      <div className="grid gap-6 md:grid-cols-3 w-full max-w-4xl">
         {/* Host Card */}
         <motion.div
           initial={{ opacity: 0, x: -20 }}
@@ -81,6 +81,27 @@ export default function HomePage() {
             </GlassCard>
           </Link>
         </motion.div>
+
+        {/* Lobby Card */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.4 }}
+        >
+          <Link href="/lobby" className="block">
+            <GlassCard className="text-center py-8 cursor-pointer group">
+              <div className="text-5xl mb-4 group-hover:scale-110 transition-transform">
+                🌐
+              </div>
+              <h2 className="text-2xl font-bold mb-2 text-[var(--neon-purple)]">
+                Sảnh Chờ
+              </h2>
+              <p className="text-[var(--text-secondary)]">
+                Tìm phòng công khai đang mở
+              </p>
+            </GlassCard>
+          </Link>
+        </motion.div>
       </div>
 
       {/* Features */}
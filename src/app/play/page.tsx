@@ -8,38 +8,65 @@ import { useAudio } from '@/hooks/useAudio';
 import { NeonNumber } from '@/components/ui/NeonNumber';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { Confetti } from '@/components/ui/Confetti';
+import { AutoCallCountdown } from '@/components/ui/AutoCallCountdown';
+import { StartCountdown } from '@/components/ui/StartCountdown';
+import { ReactionFeed } from '@/components/ui/ReactionFeed';
 import { JoinRoom } from '@/components/player/JoinRoom';
 import { LotoTicket } from '@/components/player/LotoTicket';
 import { NumberTracker } from '@/components/player/NumberTracker';
+import { ReactionBar } from '@/components/player/ReactionBar';
 import type { LotoTicket as LotoTicketType, ValidationResult } from '@/lib/game-types';
+import { describeTie, getCurrentPrize, getPrizeLadder } from '@/lib/prizes';
+import { getGameFormat } from '@/lib/game-formats';
+import { getRole, isMuted } from '@/lib/roles';
+import { describeClaimOutcome } from '@/lib/claims';
 
 function PlayerContent() {
     const searchParams = useSearchParams();
     const initialCode = searchParams.get('code') || '';
+    const invite = searchParams.get('invite') || undefined;
 
     const [tickets, setTickets] = useState<LotoTicketType[]>([]);
     const [showWinner, setShowWinner] = useState(false);
     const [isMyWin, setIsMyWin] = useState(false);
     const [winnerName, setWinnerName] = useState('');
+    const [winnerPrize, setWinnerPrize] = useState('');
+    const [winnerNote, setWinnerNote] = useState<string | null>(null);
     const [ticketCount, setTicketCount] = useState(1);
     const [kinhResult, setKinhResult] = useState<ValidationResult | null>(null);
     const [showTracker, setShowTracker] = useState(false);
     const [revealedNumber, setRevealedNumber] = useState<number | null>(null);
     const [revealedCalledNumbers, setRevealedCalledNumbers] = useState<number[]>([]);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [kickedReason, setKickedReason] = useState<string | null>(null);
 
     const {
         isConnected,
+        connectionError,
         room,
         calledNumbers,
         lastNumber,
+        winners,
+        drawCommitment,
+        autoCall,
+        playerId,
+        isSpectator,
+        pendingJoin,
+        reactions,
         joinRoom,
+        becomePlayer,
         createTickets,
         markNumber,
         callKinh,
-        onWinner,
+        sendReaction,
+        onPrizeWon,
+        onClaimResolved,
+        onKicked,
+        onJoinDenied,
         onAudioPlaySequence,
         onRoomClosed,
         onGameReset,
+        onStartReminder,
         restoreSession,
         leaveRoom,
     } = useSocket();
@@ -101,16 +128,53 @@ function PlayerContent() {
         });
     }, [onAudioPlaySequence, isInitialized, playSpinSequence, room?.settings.audioMode]);
 
+    // Handle prize announcements and decided claims
+    useEffect(() => {
+        onPrizeWon((data) => {
+            setKinhResult(null);
+            setWinnerName(data.winners.map(w => w.nickname).join(', '));
+            setWinnerPrize(data.prizeName);
+            setWinnerNote(describeTie(data));
+            setIsMyWin(data.winners.some(w => tickets.some(t => t.id === w.ticketId)));
+            setShowWinner(true);
+            setTimeout(() => setShowWinner(false), 8000);
+        });
+
+        onClaimResolved((claim) => {
+            if (!tickets.some(t => t.id === claim.ticketId)) return;
+            // Wins are announced by onPrizeWon; a refused ticket keeps its result toast unless it cost something
+            if (claim.status === 'approved' || (claim.status === 'invalid' && !claim.penalty)) return;
+            setKinhResult(null);
+            setNotice(describeClaimOutcome(claim));
+            setTimeout(() => setNotice(null), 5000);
+        });
+    }, [onPrizeWon, onClaimResolved, tickets]);
+
     // Handle room closed & Game Reset
     useEffect(() => {
         onRoomClosed(() => {
             setTickets([]);
         });
 
+        onKicked((reason) => {
+            setTickets([]);
+            setKickedReason(reason);
+        });
+
+        onJoinDenied(() => {
+            setKickedReason('Chủ phòng không cho bạn vào phòng');
+        });
+
+        onStartReminder((startsIn) => {
+            setNotice(`⏰ Trò chơi bắt đầu sau ${Math.max(1, Math.round(startsIn / 60000))} phút. Nhớ tạo vé!`);
+            setTimeout(() => setNotice(null), 8000);
+        });
+
         onGameReset(() => {
             console.log('🔄 Game reset detected on player client');
             setShowWinner(false);
             setWinnerName('');
+            setWinnerPrize('');
             setIsMyWin(false);
             setKinhResult(null);
             setRevealedNumber(null);
@@ -128,14 +192,26 @@ function PlayerContent() {
                 })) as typeof t.grids
             })));
         });
-    }, [onRoomClosed, onGameReset]);
+    }, [onRoomClosed, onKicked, onJoinDenied, onGameReset, onStartReminder]);
 
     // Join handler
-    const handleJoin = useCallback(async (code: string, nickname: string): Promise<boolean> => {
+    const handleJoin = useCallback(async (code: string, nickname: string, password?: string, spectate = false) => {
         await initialize();
-        const joinedRoom = await joinRoom(code, nickname);
-        return joinedRoom !== null;
-    }, [joinRoom, initialize]);
+        setKickedReason(null);
+        // The invite link only counts for the room it was made for
+        const credentials = { password, invite: code === initialCode.toUpperCase() ? invite : undefined };
+        const { error } = await joinRoom(code, nickname, credentials, spectate);
+        return error ?? null;
+    }, [joinRoom, initialize, initialCode, invite]);
+
+    // Spectator taking a seat; refused once the game has started or the room is full
+    const handleBecomePlayer = useCallback(async () => {
+        const { error } = await becomePlayer();
+        if (error) {
+            setNotice(error.message);
+            setTimeout(() => setNotice(null), 5000);
+        }
+    }, [becomePlayer]);
 
     // Create tickets handler
     const handleCreateTickets = useCallback(async () => {
@@ -143,10 +219,8 @@ function PlayerContent() {
         setTickets(prev => [...prev, ...newTickets]);
     }, [createTickets, ticketCount]);
 
-    // Mark number handler
-    const handleMarkNumber = useCallback((ticketId: string, gridIndex: number, rowIndex: number, colIndex: number) => {
-        markNumber(ticketId, gridIndex, rowIndex, colIndex);
-        // Update local state
+    // Flip a mark in local state
+    const toggleLocalMark = useCallback((ticketId: string, gridIndex: number, rowIndex: number, colIndex: number) => {
         setTickets(prev => prev.map(t => {
             if (t.id === ticketId) {
                 const newGrids = [...t.grids];
@@ -164,7 +238,19 @@ function PlayerContent() {
             }
             return t;
         }));
-    }, [markNumber]);
+    }, []);
+
+    // Mark number handler (optimistic, undone if the server refuses it)
+    const handleMarkNumber = useCallback(async (ticketId: string, gridIndex: number, rowIndex: number, colIndex: number) => {
+        toggleLocalMark(ticketId, gridIndex, rowIndex, colIndex);
+
+        const error = await markNumber(ticketId, gridIndex, rowIndex, colIndex);
+        if (error) {
+            toggleLocalMark(ticketId, gridIndex, rowIndex, colIndex);
+            setNotice(error.message);
+            setTimeout(() => setNotice(null), 3000);
+        }
+    }, [markNumber, toggleLocalMark]);
 
     useEffect(() => {
         if (!room?.settings.autoMarkNumbers || tickets.length === 0 || revealedNumber === null) return;
@@ -213,19 +299,23 @@ function PlayerContent() {
     }, [revealedNumber, room?.settings.autoMarkNumbers, markNumber]);
 
     // Call kinh handler
-    const handleCallKinh = useCallback(async (ticketId: string, gridIndex: number, rowIndex: number) => {
+    const handleCallKinh = useCallback(async (ticketId: string, gridIndex?: number, rowIndex?: number) => {
         const result = await callKinh(ticketId, gridIndex, rowIndex);
         setKinhResult(result);
         setTimeout(() => setKinhResult(null), 5000);
     }, [callKinh]);
 
+    // Prize the players are currently playing for
+    const currentPrize = room ? getCurrentPrize(getPrizeLadder(room.settings), winners) : null;
+    const gameFormat = getGameFormat(room?.settings.gameFormat);
+
     // Leave room handler
     const handleLeaveRoom = useCallback(() => {
-        if (window.confirm('Bạn có chắc muốn thoát phòng? Vé hiện tại sẽ bị mất.')) {
+        if (isSpectator || window.confirm('Bạn có chắc muốn thoát phòng? Vé hiện tại sẽ bị mất.')) {
             leaveRoom();
             setTickets([]); // Clear local tickets
         }
-    }, [leaveRoom]);
+    }, [leaveRoom, isSpectator]);
 
     // Show join form if not in room
     if (!room) {
@@ -234,6 +324,9 @@ function PlayerContent() {
                 initialCode={initialCode}
                 isConnected={isConnected}
                 onJoin={handleJoin}
+                notice={connectionError?.message ?? kickedReason}
+                waiting={pendingJoin !== null}
+                onCancel={leaveRoom}
             />
         );
     }
@@ -253,6 +346,12 @@ function PlayerContent() {
                 </div>
 
                 <div className="flex gap-2">
+                    {/* Co-hosts, or a co-host who took over from the host */}
+                    {getRole(room, playerId) !== 'player' && (
+                        <a href="/host" className="btn btn-sm btn-secondary">
+                            🎛️ Điều khiển
+                        </a>
+                    )}
                     <button
                         className={`btn btn-sm ${showTracker ? 'btn-primary' : 'btn-secondary'}`}
                         onClick={() => setShowTracker(!showTracker)}
@@ -282,12 +381,46 @@ function PlayerContent() {
                 </AnimatePresence>
 
                 <div className="mt-4 flex justify-center gap-4 text-sm text-[var(--text-muted)]">
-                    <span>Đã gọi: {revealedCalledNumbers.length}/89</span>
+                    <span>Đã gọi: {revealedCalledNumbers.length}/{gameFormat.maxNumber}</span>
                     {room.status === 'waiting' && (
                         <span className="text-[var(--neon-cyan)]">Chờ bắt đầu...</span>
                     )}
+                    {room.status === 'playing' && currentPrize && (
+                        <span className="text-[var(--neon-gold)]">Đang tranh: {currentPrize.name}</span>
+                    )}
                 </div>
 
+                {room.status === 'playing' && <AutoCallCountdown status={autoCall} className="mt-2" />}
+                {room.status !== 'playing' && (
+                    <StartCountdown
+                        startAt={room.settings.scheduledStart}
+                        minPlayers={room.settings.minPlayers}
+                        playerCount={room.players.filter(p => p.oderId !== room.hostId).length}
+                        className="mt-4"
+                    />
+                )}
+
+                {/* Draw commitment, the seed is revealed when the game ends */}
+                {drawCommitment && (
+                    <p className="mt-2 text-xs text-[var(--text-muted)]">
+                        {drawCommitment.seed ? (
+                            <>
+                                Mã gốc: {drawCommitment.seed.slice(0, 16)}…{' '}
+                                <a
+                                    href={`/api/sessions/${drawCommitment.sessionId}/verify`}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="text-[var(--neon-cyan)] hover:underline"
+                                >
+                                    Kiểm tra ván chơi
+                                </a>
+                            </>
+                        ) : (
+                            <>Mã cam kết: {drawCommitment.seedHash.slice(0, 16)}…</>
+                        )}
+                    </p>
+                )}
+
                 {/* Audio Loading Progress */}
                 {progress.total < 100 && (
                     <div className="mt-4 max-w-xs mx-auto">
@@ -304,92 +437,120 @@ function PlayerContent() {
                 )}
             </GlassCard>
 
-            {/* Number Tracker (Collapsible) */}
+            {!isSpectator && (
+                <div className="mb-4">
+                    <ReactionBar muted={isMuted(room, playerId)} onReact={sendReaction} />
+                </div>
+            )}
+            <ReactionFeed reactions={reactions} />
+
+            {/* Number Tracker (Collapsible; always shown to spectators, who have no tickets) */}
             <AnimatePresence>
-                {showTracker && (
+                {(showTracker || isSpectator) && (
                     <motion.div
                         initial={{ opacity: 0, height: 0 }}
                         animate={{ opacity: 1, height: 'auto' }}
                         exit={{ opacity: 0, height: 0 }}
                         className="mb-4"
                     >
-                        <NumberTracker calledNumbers={revealedCalledNumbers} lastNumber={revealedNumber} />
+                        <NumberTracker calledNumbers={revealedCalledNumbers} lastNumber={revealedNumber} format={gameFormat} />
                     </motion.div>
                 )}
             </AnimatePresence>
 
-            {/* Tickets Section */}
-            <div className="mb-4">
-                <div className="flex items-center justify-between mb-4">
-                    <h2 className="text-lg font-semibold text-[var(--text-secondary)]">
-                        Vé của bạn ({tickets.length})
-                    </h2>
-
-                    {room.status === 'waiting' && (
-                        <div className="bg-[var(--card-bg)] rounded-xl p-4 shadow-sm border border-[var(--primary)] mb-4 w-full">
-                            <h3 className="text-sm font-bold text-center mb-3">Tạo vé tham gia</h3>
+            {/* Spectators watch; they may take a seat until the game starts */}
+            {isSpectator ? (
+                <GlassCard className="text-center py-6 mb-4">
+                    <p className="text-[var(--text-secondary)] mb-1">👀 Bạn đang xem với tư cách khán giả</p>
+                    <p className="text-xs text-[var(--text-muted)] mb-4">
+                        {room.players.length}/{room.settings.maxPlayers} người chơi, {room.spectators.length} khán giả
+                    </p>
+                    {room.status === 'waiting' ? (
+                        <button
+                            className="btn btn-primary"
+                            onClick={handleBecomePlayer}
+                            disabled={room.players.length >= room.settings.maxPlayers}
+                        >
+                            🎟️ Vào chơi
+                        </button>
+                    ) : (
+                        <p className="text-sm text-[var(--text-muted)]">Ván đang diễn ra, chờ ván sau để vào chơi</p>
+                    )}
+                </GlassCard>
+            ) : (
+                <div className="mb-4">
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-lg font-semibold text-[var(--text-secondary)]">
+                            Vé của bạn ({tickets.length})
+                        </h2>
 
-                            <div className="flex gap-2 mb-3">
-                                <div className="join flex-1 grid grid-cols-2">
+                        {room.status === 'waiting' && (
+                            <div className="bg-[var(--card-bg)] rounded-xl p-4 shadow-sm border border-[var(--primary)] mb-4 w-full">
+                                <h3 className="text-sm font-bold text-center mb-3">Tạo vé tham gia</h3>
+
+                                <div className="flex gap-2 mb-3">
+                                    <div className="join flex-1 grid grid-cols-2">
+                                        <button
+                                            className="join-item btn btn-sm btn-secondary"
+                                            onClick={() => setTicketCount(Math.max(1, ticketCount - 1))}
+                                        >
+                                            -
+                                        </button>
+                                        <button className="join-item btn btn-sm bg-base-200 no-animation pointer-events-none">
+                                            {ticketCount} vé
+                                        </button>
+                                    </div>
                                     <button
                                         className="join-item btn btn-sm btn-secondary"
-                                        onClick={() => setTicketCount(Math.max(1, ticketCount - 1))}
+                                        onClick={() => setTicketCount(Math.min(5, ticketCount + 1))}
                                     >
-                                        -
-                                    </button>
-                                    <button className="join-item btn btn-sm bg-base-200 no-animation pointer-events-none">
-                                        {ticketCount} vé
+                                        +
                                     </button>
                                 </div>
                                 <button
-                                    className="join-item btn btn-sm btn-secondary"
-                                    onClick={() => setTicketCount(Math.min(5, ticketCount + 1))}
+                                    className="btn btn-primary w-full btn-sm"
+                                    onClick={handleCreateTickets}
+                                    disabled={ticketCount < 1}
                                 >
-                                    +
+                                    + Tạo thêm vé
                                 </button>
                             </div>
-                            <button
-                                className="btn btn-primary w-full btn-sm"
-                                onClick={handleCreateTickets}
-                                disabled={ticketCount < 1}
-                            >
-                                + Tạo thêm vé
-                            </button>
+                        )}
+                    </div>
+
+                    {tickets.length === 0 ? (
+                        <GlassCard className="text-center py-8">
+                            <p className="text-[var(--text-muted)] mb-4">
+                                {room.status === 'waiting'
+                                    ? 'Bạn chưa có vé nào. Tạo vé để chơi!'
+                                    : 'Trò chơi đã bắt đầu mà bạn chưa có vé.'}
+                            </p>
+                            {room.status === 'waiting' && (
+                                <button
+                                    className="btn btn-primary"
+                                    onClick={handleCreateTickets}
+                                >
+                                    🎟️ Tạo vé ngay
+                                </button>
+                            )}
+                        </GlassCard>
+                    ) : (
+                        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                            {tickets.map((ticket) => (
+                                <LotoTicket
+                                    key={ticket.id}
+                                    ticket={ticket}
+                                    calledNumbers={revealedCalledNumbers}
+                                    onMarkNumber={(grid, row, index) => handleMarkNumber(ticket.id, grid, row, index)}
+                                    onCallKinh={(grid, row) => handleCallKinh(ticket.id, grid, row)}
+                                    autoMark={room.settings?.autoMarkNumbers ?? true}
+                                    winPattern={currentPrize?.pattern}
+                                />
+                            ))}
                         </div>
                     )}
                 </div>
-
-                {tickets.length === 0 ? (
-                    <GlassCard className="text-center py-8">
-                        <p className="text-[var(--text-muted)] mb-4">
-                            {room.status === 'waiting'
-                                ? 'Bạn chưa có vé nào. Tạo vé để chơi!'
-                                : 'Trò chơi đã bắt đầu mà bạn chưa có vé.'}
-                        </p>
-                        {room.status === 'waiting' && (
-                            <button
-                                className="btn btn-primary"
-                                onClick={handleCreateTickets}
-                            >
-                                🎟️ Tạo vé ngay
-                            </button>
-                        )}
-                    </GlassCard>
-                ) : (
-                    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                        {tickets.map((ticket) => (
-                            <LotoTicket
-                                key={ticket.id}
-                                ticket={ticket}
-                                calledNumbers={revealedCalledNumbers}
-                                onMarkNumber={(grid, row, index) => handleMarkNumber(ticket.id, grid, row, index)}
-                                onCallKinh={(grid, row) => handleCallKinh(ticket.id, grid, row)}
-                                autoMark={room.settings?.autoMarkNumbers ?? true}
-                            />
-                        ))}
-                    </div>
-                )}
-            </div>
+            )}
 
             {/* Kinh Result Toast */}
             <AnimatePresence>
@@ -404,9 +565,13 @@ function PlayerContent() {
                         exit={{ opacity: 0, y: 50 }}
                     >
                         <p className="text-center font-bold text-black">
-                            {kinhResult.isWinner
-                                ? '🎉 KINH! Bạn đã thắng!'
-                                : `Chưa thắng - Đã trùng ${kinhResult.matchedNumbers.length}/5`}
+                            {kinhResult.error
+                                ? kinhResult.error.message
+                                : kinhResult.isWinner
+                                    ? room.settings.checkMode === 'auto'
+                                        ? '🎉 KINH! Bạn đã thắng!'
+                                        : '🎉 KINH! Đang chờ chủ phòng xác nhận...'
+                                    : `Chưa thắng - Đã trùng ${kinhResult.matchedNumbers.length}/${kinhResult.requiredCount ?? 5}`}
                         </p>
                         {!kinhResult.isWinner && kinhResult.missingNumbers.length > 0 && (
                             <p className="text-center text-sm text-black/70 mt-1">
@@ -417,6 +582,20 @@ function PlayerContent() {
                 )}
             </AnimatePresence>
 
+            {/* Notice Toast */}
+            <AnimatePresence>
+                {notice && !kinhResult && (
+                    <motion.div
+                        className="fixed bottom-4 left-4 right-4 p-4 rounded-lg z-40 bg-red-500"
+                        initial={{ opacity: 0, y: 50 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 50 }}
+                    >
+                        <p className="text-center font-bold text-white">{notice}</p>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
             {/* Winner Modal */}
             <AnimatePresence>
                 {showWinner && (
@@ -439,11 +618,14 @@ function PlayerContent() {
                             <p className="text-2xl text-[var(--neon-gold)]">
                                 {winnerName}
                             </p>
-                            {!isMyWin && (
+                            {winnerPrize && (
                                 <p className="text-lg text-[var(--text-secondary)] mt-2">
-                                    đã thắng ván này
+                                    {isMyWin ? winnerPrize : `đã nhận ${winnerPrize}`}
                                 </p>
                             )}
+                            {winnerNote && (
+                                <p className="text-sm text-[var(--text-muted)] mt-2">{winnerNote}</p>
+                            )}
                         </motion.div>
                     </motion.div>
                 )}
@@ -2,26 +2,22 @@
 
 import { useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { getNumberPool, type GameFormat } from '@/lib/game-formats';
 
 interface MasterBoardProps {
     calledNumbers: number[];
     lastNumber: number | null;
+    format: GameFormat;
 }
 
-export function MasterBoard({ calledNumbers, lastNumber }: MasterBoardProps) {
-    // Generate grid of 01-89
-    const numbers = useMemo(() => {
-        const nums = [];
-        for (let i = 1; i <= 89; i++) {
-            nums.push(i);
-        }
-        return nums;
-    }, []);
+export function MasterBoard({ calledNumbers, lastNumber, format }: MasterBoardProps) {
+    // Generate grid of 01 up to the format's last number
+    const numbers = useMemo(() => getNumberPool(format), [format]);
 
     return (
         <div className="glass-card p-4">
             <h3 className="text-lg font-semibold mb-4 text-center text-[var(--text-secondary)]">
-                Bảng Số ({calledNumbers.length}/89)
+                Bảng Số ({calledNumbers.length}/{format.maxNumber})
             </h3>
 
             <div className="number-grid">
@@ -0,0 +1,60 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import type { Prize, WinnerInfo } from '@/lib/game-types';
+import { WIN_PATTERN_LABELS } from '@/lib/win-patterns';
+import { getCurrentPrize } from '@/lib/prizes';
+
+interface PrizeLadderProps {
+    prizes: Prize[];
+    winners: WinnerInfo[];
+}
+
+export function PrizeLadder({ prizes, winners }: PrizeLadderProps) {
+    const current = getCurrentPrize(prizes, winners);
+    const awardedCount = prizes.filter(prize => winners.some(w => w.prizeId === prize.id)).length;
+
+    return (
+        <div className="glass-card p-4">
+            <h3 className="text-lg font-semibold mb-4 text-center text-[var(--text-secondary)]">
+                Cơ Cấu Giải ({awardedCount}/{prizes.length})
+            </h3>
+
+            <div className="space-y-2">
+                {prizes.map((prize, index) => {
+                    const prizeWinners = winners.filter(w => w.prizeId === prize.id);
+                    const winner = prizeWinners[0];
+                    const isCurrent = current?.id === prize.id;
+
+                    return (
+                        <motion.div
+                            key={prize.id}
+                            className={`flex items-center justify-between p-2 rounded-lg border text-sm ${winner
+                                ? 'border-green-500/50 bg-green-500/10'
+                                : isCurrent
+                                    ? 'border-[var(--neon-gold)] bg-[var(--surface-hover)]'
+                                    : 'border-[var(--border)] bg-[var(--surface)]'
+                                }`}
+                            animate={isCurrent ? { scale: [1, 1.02, 1] } : {}}
+                            transition={{ duration: 1.5, repeat: isCurrent ? Infinity : 0 }}
+                        >
+                            <div>
+                                <p className="font-semibold">
+                                    {index + 1}. {prize.name}
+                                </p>
+                                <p className="text-xs text-[var(--text-muted)]">
+                                    {WIN_PATTERN_LABELS[prize.pattern.type]}
+                                </p>
+                            </div>
+                            <span className={`text-xs ${winner ? 'text-green-400' : isCurrent ? 'text-[var(--neon-gold)]' : 'text-[var(--text-muted)]'}`}>
+                                {winner ? `🏆 ${prizeWinners.map(w => w.nickname).join(', ')}` : isCurrent ? 'Đang tranh' : 'Còn mở'}
+                            </span>
+                        </motion.div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+export default PrizeLadder;
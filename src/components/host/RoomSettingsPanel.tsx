@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import type { Room } from '@/lib/game-types';
+import type { SocketError } from '@/lib/errors';
+import { GAME_FORMATS } from '@/lib/game-formats';
+import { isLiveSetting, type EditableRoomSettings } from '@/lib/room-settings';
+
+interface RoomSettingsPanelProps {
+    settings: Room['settings'];
+    status: Room['status'];
+    onUpdate: (changes: Partial<EditableRoomSettings>) => Promise<{ ok: boolean; error?: SocketError }>;
+}
+
+const MAX_PLAYERS_OPTIONS = [10, 20, 30, 50, 75, 100];
+
+export function RoomSettingsPanel({ settings, status, onUpdate }: RoomSettingsPanelProps) {
+    const [error, setError] = useState<string | null>(null);
+
+    // Outside the waiting room only the live settings stay editable
+    const locked = (key: keyof EditableRoomSettings) => status !== 'waiting' && !isLiveSetting(key);
+
+    const update = async (changes: Partial<EditableRoomSettings>) => {
+        setError(null);
+        const { ok, error } = await onUpdate(changes);
+        if (!ok) setError(error?.message ?? null);
+    };
+
+    const toggle = (key: 'autoCall' | 'autoMarkNumbers', label: string) => (
+        <div className="flex items-center justify-between">
+            <span className="text-sm text-[var(--text-muted)]">{label}</span>
+            <button
+                onClick={() => update({ [key]: !settings[key] })}
+                disabled={locked(key)}
+                className={`relative w-12 h-6 rounded-full transition-colors disabled:opacity-50 ${settings[key] ? 'bg-[var(--neon-gold)]' : 'bg-[var(--surface-hover)]'
+                    }`}
+            >
+                <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings[key] ? 'translate-x-6' : ''
+                    }`} />
+            </button>
+        </div>
+    );
+
+    return (
+        <div className="glass-card p-4">
+            <h3 className="text-lg font-semibold mb-4 text-[var(--text-secondary)]">
+                ⚙️ Cài đặt phòng
+            </h3>
+
+            <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-sm text-[var(--text-muted)]">
+                        Số người tối đa
+                        <select
+                            className="input py-1 mt-1"
+                            value={settings.maxPlayers}
+                            disabled={locked('maxPlayers')}
+                            onChange={(e) => update({ maxPlayers: Number(e.target.value) })}
+                        >
+                            {MAX_PLAYERS_OPTIONS.map(n => (
+                                <option key={n} value={n}>{n} người</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-sm text-[var(--text-muted)]">
+                        Vé mỗi người
+                        <select
+                            className="input py-1 mt-1"
+                            value={settings.maxTicketsPerPlayer}
+                            disabled={locked('maxTicketsPerPlayer')}
+                            onChange={(e) => update({ maxTicketsPerPlayer: Number(e.target.value) })}
+                        >
+                            {Array.from({ length: 10 }, (_, i) => i + 1).map(n => (
+                                <option key={n} value={n}>Tối đa {n} vé</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-sm text-[var(--text-muted)]">
+                        Chế độ hô
+                        <select
+                            className="input py-1 mt-1"
+                            value={settings.audioMode}
+                            disabled={locked('audioMode')}
+                            onChange={(e) => update({ audioMode: e.target.value as EditableRoomSettings['audioMode'] })}
+                        >
+                            <option value="singing">🎤 Hát Lô Tô</option>
+                            <option value="calling">📢 Chỉ Gọi Số</option>
+                        </select>
+                    </label>
+                    <label className="text-sm text-[var(--text-muted)]">
+                        Chế độ dò
+                        <select
+                            className="input py-1 mt-1"
+                            value={settings.checkMode}
+                            disabled={locked('checkMode')}
+                            onChange={(e) => update({ checkMode: e.target.value as EditableRoomSettings['checkMode'] })}
+                        >
+                            <option value="manual">🖐 Thủ công</option>
+                            <option value="auto">🤖 Tự động</option>
+                        </select>
+                    </label>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-sm text-[var(--text-muted)]">
+                        Loại vé
+                        <select
+                            className="input py-1 mt-1"
+                            value={settings.gameFormat}
+                            disabled={locked('gameFormat')}
+                            onChange={(e) => update({ gameFormat: e.target.value as EditableRoomSettings['gameFormat'] })}
+                        >
+                            {Object.values(GAME_FORMATS).map(format => (
+                                <option key={format.id} value={format.id}>{format.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-sm text-[var(--text-muted)]">
+                        Hiển thị
+                        <select
+                            className="input py-1 mt-1"
+                            value={settings.visibility}
+                            disabled={locked('visibility')}
+                            onChange={(e) => update({ visibility: e.target.value as EditableRoomSettings['visibility'] })}
+                        >
+                            <option value="private">🔑 Riêng tư</option>
+                            <option value="public">🌐 Công khai</option>
+                        </select>
+                    </label>
+                </div>
+
+                {toggle('autoCall', 'Tự động gọi số')}
+                {toggle('autoMarkNumbers', 'Tự dò số cho người chơi')}
+
+                {status !== 'waiting' && (
+                    <p className="text-xs text-[var(--text-muted)]">
+                        Trong ván chỉ đổi được số người, chế độ hô, tự dò số và hiển thị
+                    </p>
+                )}
+                {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+            </div>
+        </div>
+    );
+}
+
+export default RoomSettingsPanel;
@@ -0,0 +1,134 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { RoomTemplate } from '@/lib/room-templates';
+
+interface RoomTemplatePickerProps {
+    templates: RoomTemplate[];
+    canCreate: boolean; // a nickname is entered and the socket is connected
+    onApply: (template: RoomTemplate) => void;  // fill the form with it
+    onCreate: (template: RoomTemplate) => void; // create a room with it right away
+    onSave: (name: string) => boolean;          // the form as a new template
+    onDelete: (id: string) => void;
+    onExport: () => string;
+    onImport: (json: string) => number | null;
+}
+
+export function RoomTemplatePicker({
+    templates,
+    canCreate,
+    onApply,
+    onCreate,
+    onSave,
+    onDelete,
+    onExport,
+    onImport,
+}: RoomTemplatePickerProps) {
+    const [name, setName] = useState('');
+    const [notice, setNotice] = useState<string | null>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+    const hasOwn = templates.some(t => !t.builtIn);
+
+    const handleSave = () => {
+        if (onSave(name)) {
+            setName('');
+            setNotice(`Đã lưu mẫu "${name.trim()}"`);
+        } else {
+            setNotice('Tên mẫu không hợp lệ');
+        }
+    };
+
+    const handleExport = () => {
+        const url = URL.createObjectURL(new Blob([onExport()], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'loto-mau-phong.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (file: File | undefined) => {
+        if (!file) return;
+        const count = onImport(await file.text());
+        setNotice(count === null ? 'File mẫu không hợp lệ' : `Đã nhập ${count} mẫu`);
+        if (fileRef.current) fileRef.current.value = '';
+    };
+
+    return (
+        <div className="space-y-3">
+            <h3 className="font-semibold text-[var(--text-secondary)]">Mẫu phòng</h3>
+
+            <div className="space-y-2 max-h-56 overflow-y-auto">
+                {templates.map(template => (
+                    <div
+                        key={template.id}
+                        className="flex items-center gap-2 p-2 rounded-lg border border-[var(--border)] bg-[var(--surface)]"
+                    >
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-semibold truncate">
+                                {template.builtIn ? '⭐' : '📁'} {template.name}
+                            </p>
+                            {template.description && (
+                                <p className="text-xs text-[var(--text-muted)] truncate">{template.description}</p>
+                            )}
+                        </div>
+                        <button className="btn btn-secondary btn-sm" onClick={() => onApply(template)}>
+                            Dùng
+                        </button>
+                        <button
+                            className="btn btn-primary btn-sm"
+                            onClick={() => onCreate(template)}
+                            disabled={!canCreate}
+                            title={canCreate ? undefined : 'Nhập tên của bạn trước'}
+                        >
+                            Tạo ngay
+                        </button>
+                        {!template.builtIn && (
+                            <button
+                                onClick={() => onDelete(template.id)}
+                                title="Xóa mẫu"
+                                className="px-1 rounded hover:bg-[var(--surface-hover)]"
+                            >
+                                🗑️
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="input py-1"
+                    placeholder="Lưu thiết lập hiện tại thành mẫu..."
+                    maxLength={40}
+                />
+                <button className="btn btn-secondary btn-sm" onClick={handleSave} disabled={!name.trim()}>
+                    Lưu
+                </button>
+            </div>
+
+            <div className="flex gap-2">
+                <button className="btn btn-secondary btn-sm flex-1" onClick={handleExport} disabled={!hasOwn}>
+                    ⬇️ Xuất file
+                </button>
+                <button className="btn btn-secondary btn-sm flex-1" onClick={() => fileRef.current?.click()}>
+                    ⬆️ Nhập file
+                </button>
+                <input
+                    ref={fileRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => handleImport(e.target.files?.[0])}
+                />
+            </div>
+
+            {notice && <p className="text-xs text-center text-[var(--text-muted)]">{notice}</p>}
+        </div>
+    );
+}
+
+export default RoomTemplatePicker;
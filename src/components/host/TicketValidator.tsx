@@ -3,18 +3,57 @@
 import { useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { ValidationResult } from '@/lib/game-types';
+import type { KinhClaim } from '@/lib/socket-events';
+import type { SocketError } from '@/lib/errors';
+import { formatMatchLocation } from '@/lib/win-patterns';
+import { isInFormat, type GameFormat } from '@/lib/game-formats';
 
 interface TicketValidatorProps {
+    claims?: KinhClaim[];
+    format: GameFormat;
     onValidateTicket: (ticketId: string) => Promise<ValidationResult>;
     onValidateNumbers: (numbers: number[]) => Promise<ValidationResult>;
+    onApprove?: (claim: KinhClaim) => Promise<{ approved: boolean; error?: SocketError }>;
+    onReject?: (claim: KinhClaim) => void;
 }
 
-export function TicketValidator({ onValidateTicket, onValidateNumbers }: TicketValidatorProps) {
+export function TicketValidator({
+    claims = [],
+    format,
+    onValidateTicket,
+    onValidateNumbers,
+    onApprove,
+    onReject,
+}: TicketValidatorProps) {
     const [mode, setMode] = useState<'ticket' | 'manual'>('manual');
     const [ticketId, setTicketId] = useState('');
     const [manualNumbers, setManualNumbers] = useState<string[]>(['', '', '', '', '']);
     const [result, setResult] = useState<ValidationResult | null>(null);
     const [isValidating, setIsValidating] = useState(false);
+    const [approveError, setApproveError] = useState<string | null>(null);
+
+    const handleApprove = useCallback(async (claim: KinhClaim) => {
+        if (!onApprove) return;
+        setApproveError(null);
+        const { approved, error } = await onApprove(claim);
+        if (!approved) {
+            setApproveError(error?.message || 'Không thể xác nhận thắng');
+        }
+    }, [onApprove]);
+
+    const handleReviewClaim = useCallback(async (claim: KinhClaim) => {
+        setMode('ticket');
+        setTicketId(claim.ticketId);
+        setIsValidating(true);
+        setResult(null);
+
+        try {
+            const res = await onValidateTicket(claim.ticketId);
+            setResult(res);
+        } finally {
+            setIsValidating(false);
+        }
+    }, [onValidateTicket]);
 
     const handleValidateTicket = useCallback(async () => {
         if (!ticketId.trim()) return;
@@ -33,7 +72,7 @@ export function TicketValidator({ onValidateTicket, onValidateNumbers }: TicketV
     const handleValidateNumbers = useCallback(async () => {
         const numbers = manualNumbers
             .map(n => parseInt(n, 10))
-            .filter(n => !isNaN(n) && n >= 1 && n <= 89);
+            .filter(n => isInFormat(format, n));
 
         if (numbers.length !== 5) {
             setResult({
@@ -54,13 +93,13 @@ export function TicketValidator({ onValidateTicket, onValidateNumbers }: TicketV
         } finally {
             setIsValidating(false);
         }
-    }, [manualNumbers, onValidateNumbers]);
+    }, [manualNumbers, onValidateNumbers, format]);
 
     const handleNumberChange = (index: number, value: string) => {
         const newNumbers = [...manualNumbers];
-        // Only allow numbers 1-89
+        // Only allow numbers in the room's format
         const num = value.replace(/\D/g, '').slice(0, 2);
-        if (parseInt(num) > 89) return;
+        if (parseInt(num) > format.maxNumber) return;
         newNumbers[index] = num;
         setManualNumbers(newNumbers);
     };
@@ -77,6 +116,52 @@ export function TicketValidator({ onValidateTicket, onValidateNumbers }: TicketV
                 Kiểm Tra Vé
             </h3>
 
+            {/* Pending Kinh Claims */}
+            {claims.length > 0 && (
+                <div className="mb-4 space-y-2">
+                    <p className="text-sm font-semibold text-[var(--neon-gold)]">
+                        Đang chờ xác nhận ({claims.length})
+                    </p>
+                    {claims.map((claim) => (
+                        <div
+                            key={`${claim.ticketId}-${claim.grid}-${claim.row}`}
+                            className="p-2 rounded-lg bg-[var(--surface)] border border-[var(--border)] text-sm"
+                        >
+                            <p>
+                                <span className="font-bold">{claim.nickname}</span>
+                                {' • '}
+                                <span className="font-mono">#{claim.ticketId.slice(-6).toUpperCase()}</span>
+                                {' • '}
+                                {formatMatchLocation(claim.grid, claim.row)}
+                            </p>
+                            <div className="flex gap-2 mt-2">
+                                <button
+                                    className="btn btn-sm btn-secondary flex-1"
+                                    onClick={() => handleReviewClaim(claim)}
+                                >
+                                    Kiểm tra
+                                </button>
+                                <button
+                                    className="btn btn-sm btn-primary flex-1"
+                                    onClick={() => handleApprove(claim)}
+                                >
+                                    Xác nhận
+                                </button>
+                                <button
+                                    className="btn btn-sm flex-1 bg-red-500/10 text-red-500 border-red-500/50"
+                                    onClick={() => onReject?.(claim)}
+                                >
+                                    Từ chối
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    {approveError && (
+                        <p className="text-xs text-red-400">{approveError}</p>
+                    )}
+                </div>
+            )}
+
             {/* Mode Toggle */}
             <div className="flex gap-2 mb-4">
                 <button
@@ -97,7 +182,7 @@ export function TicketValidator({ onValidateTicket, onValidateNumbers }: TicketV
             {mode === 'manual' && (
                 <div>
                     <p className="text-sm text-[var(--text-muted)] mb-2">
-                        Nhập 5 số trên hàng ngang (1-90):
+                        Nhập 5 số trên hàng ngang (1-{format.maxNumber}):
                     </p>
                     <div className="flex gap-2 mb-4">
                         {manualNumbers.map((num, idx) => (
@@ -165,12 +250,34 @@ export function TicketValidator({ onValidateTicket, onValidateNumbers }: TicketV
                                 <>
                                     <p className="text-2xl font-bold text-green-400">🎉 KINH!</p>
                                     <p className="text-sm text-green-300 mt-1">Vé hợp lệ - THẮNG!</p>
+                                    {result.ticketId && (
+                                        <>
+                                            <p className="text-xs text-[var(--text-muted)] mt-1">
+                                                {result.nickname && `${result.nickname} • `}
+                                                {formatMatchLocation(result.grid, result.row)}
+                                            </p>
+                                            {onApprove && (
+                                                <button
+                                                    className="btn btn-sm btn-primary mt-3"
+                                                    onClick={() => handleApprove({
+                                                        playerId: result.ownerId || '',
+                                                        nickname: result.nickname || '',
+                                                        ticketId: result.ticketId!,
+                                                        grid: result.grid,
+                                                        row: result.row,
+                                                    })}
+                                                >
+                                                    🏆 Xác nhận thắng
+                                                </button>
+                                            )}
+                                        </>
+                                    )}
                                 </>
                             ) : result.isValid ? (
                                 <>
                                     <p className="text-xl font-bold text-yellow-400">Chưa thắng</p>
                                     <p className="text-sm text-yellow-300 mt-1">
-                                        Đã trùng: {result.matchedNumbers.length}/5
+                                        Đã trùng: {result.matchedNumbers.length}/{result.requiredCount ?? 5}
                                     </p>
                                     {result.missingNumbers.length > 0 && (
                                         <p className="text-xs text-[var(--text-muted)] mt-1">
@@ -181,7 +288,9 @@ export function TicketValidator({ onValidateTicket, onValidateNumbers }: TicketV
                             ) : (
                                 <>
                                     <p className="text-xl font-bold text-red-400">Không hợp lệ</p>
-                                    <p className="text-sm text-red-300 mt-1">Vui lòng nhập đủ 5 số (1-90)</p>
+                                    <p className="text-sm text-red-300 mt-1">
+                                        {result.error?.message ?? `Vui lòng nhập đủ 5 số (1-${format.maxNumber})`}
+                                    </p>
                                 </>
                             )}
                         </div>
@@ -3,29 +3,40 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { GlassCard } from '@/components/ui/GlassCard';
+import type { SocketError } from '@/lib/errors';
 
 interface JoinRoomProps {
     initialCode?: string;
     isConnected: boolean;
-    onJoin: (code: string, nickname: string) => Promise<boolean>;
+    onJoin: (code: string, nickname: string, password?: string, spectate?: boolean) => Promise<SocketError | null>;
+    notice?: string | null; // why the player is back here, e.g. removed from the room
+    waiting?: boolean;      // the host has yet to let this player in
+    onCancel?: () => void;  // stop waiting
 }
 
-export function JoinRoom({ initialCode = '', isConnected, onJoin }: JoinRoomProps) {
+export function JoinRoom({ initialCode = '', isConnected, onJoin, notice = null, waiting = false, onCancel }: JoinRoomProps) {
     const [code, setCode] = useState(initialCode);
     const [nickname, setNickname] = useState('');
+    const [password, setPassword] = useState('');
+    const [needsPassword, setNeedsPassword] = useState(false);
     const [isJoining, setIsJoining] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const message = waiting ? null : error ?? notice;
 
-    const handleJoin = async () => {
+    // As a player, or as a spectator watching without tickets
+    const handleJoin = async (spectate = false) => {
         if (!code.trim() || !nickname.trim()) return;
 
         setIsJoining(true);
         setError(null);
 
-        const success = await onJoin(code.trim().toUpperCase(), nickname.trim());
+        const failure = await onJoin(code.trim().toUpperCase(), nickname.trim(), password || undefined, spectate);
 
-        if (!success) {
-            setError('Không thể tham gia phòng. Vui lòng kiểm tra mã phòng.');
+        if (failure?.code === 'PASSWORD_REQUIRED' || failure?.code === 'WRONG_PASSWORD') {
+            setNeedsPassword(true);
+        }
+        if (failure && failure.code !== 'AWAITING_APPROVAL') {
+            setError(failure.message);
         }
 
         setIsJoining(false);
@@ -60,7 +71,7 @@ export function JoinRoom({ initialCode = '', isConnected, onJoin }: JoinRoomProp
                             className="input text-center text-2xl font-mono tracking-widest"
                             placeholder="ABCD12"
                             maxLength={6}
-                            disabled={isJoining}
+                            disabled={isJoining || waiting}
                         />
                     </div>
 
@@ -74,28 +85,72 @@ export function JoinRoom({ initialCode = '', isConnected, onJoin }: JoinRoomProp
                             onChange={(e) => setNickname(e.target.value)}
                             className="input"
                             placeholder="Nhập tên..."
-                            disabled={isJoining}
+                            disabled={isJoining || waiting}
                             onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
                         />
                     </div>
 
-                    {error && (
+                    {needsPassword && (
+                        <div>
+                            <label className="block text-sm text-[var(--text-muted)] mb-2">
+                                🔒 Mật khẩu phòng
+                            </label>
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className="input"
+                                placeholder="Nhập mật khẩu..."
+                                maxLength={64}
+                                disabled={isJoining || waiting}
+                                onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
+                            />
+                        </div>
+                    )}
+
+                    {message && (
                         <motion.p
                             className="text-red-400 text-sm text-center"
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
                         >
-                            {error}
+                            {message}
                         </motion.p>
                     )}
 
-                    <button
-                        className="btn btn-primary btn-lg w-full"
-                        onClick={handleJoin}
-                        disabled={!code.trim() || !nickname.trim() || isJoining || !isConnected}
-                    >
-                        {!isConnected ? 'Đang kết nối...' : isJoining ? 'Đang vào phòng...' : '🎟️ Vào Phòng'}
-                    </button>
+                    {waiting ? (
+                        <div className="text-center space-y-3">
+                            <motion.p
+                                className="text-[var(--neon-cyan)]"
+                                animate={{ opacity: [1, 0.5, 1] }}
+                                transition={{ duration: 1.5, repeat: Infinity }}
+                            >
+                                ⏳ Đang chờ chủ phòng cho vào...
+                            </motion.p>
+                            {onCancel && (
+                                <button className="btn btn-secondary w-full" onClick={onCancel}>
+                                    Hủy
+                                </button>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            <button
+                                className="btn btn-primary btn-lg w-full"
+                                onClick={() => handleJoin()}
+                                disabled={!code.trim() || !nickname.trim() || isJoining || !isConnected}
+                            >
+                                {!isConnected ? 'Đang kết nối...' : isJoining ? 'Đang vào phòng...' : '🎟️ Vào Phòng'}
+                            </button>
+                            <button
+                                className="btn btn-secondary w-full"
+                                onClick={() => handleJoin(true)}
+                                disabled={!code.trim() || !nickname.trim() || isJoining || !isConnected}
+                            >
+                                👀 Chỉ xem (không lấy vé)
+                            </button>
+                        </div>
+                    )}
                 </div>
 
                 <div className="mt-6 pt-6 border-t border-[var(--border)]">
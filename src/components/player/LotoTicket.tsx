@@ -2,14 +2,16 @@
 
 import { useMemo } from 'react';
 import { motion } from 'framer-motion';
-import type { LotoTicket as LotoTicketType } from '@/lib/game-types';
+import type { LotoTicket as LotoTicketType, WinPattern } from '@/lib/game-types';
+import { DEFAULT_WIN_PATTERN, findWinningMatches } from '@/lib/win-patterns';
 
 interface LotoTicketProps {
     ticket: LotoTicketType;
     calledNumbers: number[];
     onMarkNumber: (gridIndex: number, rowIndex: number, colIndex: number) => void;
-    onCallKinh: (gridIndex: number, rowIndex: number) => void;
+    onCallKinh: (gridIndex?: number, rowIndex?: number) => void;
     autoMark?: boolean;
+    winPattern?: WinPattern;
 }
 
 export function LotoTicket({
@@ -18,25 +20,21 @@ export function LotoTicket({
     onMarkNumber,
     onCallKinh,
     autoMark = true,
+    winPattern = DEFAULT_WIN_PATTERN,
 }: LotoTicketProps) {
-    // Check status for all grids and rows
-    const gridsStatus = useMemo(() => {
+    // Completed matches of the room's win pattern
+    const winningMatches = useMemo(() => {
         if (!ticket || !ticket.grids) return [];
+        return findWinningMatches(ticket, calledNumbers, winPattern);
+    }, [ticket, calledNumbers, winPattern]);
 
-        return ticket.grids.map(grid => {
-            return grid.rows.map(row => {
-                // Filter non-null cells
-                const rowNumbers = row.cells.filter((n): n is number => n !== null);
-                const matched = rowNumbers.filter(n => calledNumbers.includes(n)).length;
-                return {
-                    matched,
-                    isPossibleWin: matched >= 4,
-                    isWinner: matched === 5,
-                    hasNumber: rowNumbers.length > 0 // Validity check
-                };
-            });
-        });
-    }, [ticket, calledNumbers]);
+    const winningNumbers = useMemo(
+        () => new Set(winningMatches.flatMap(m => m.matchedNumbers)),
+        [winningMatches]
+    );
+
+    // Ticket-wide patterns (e.g. first five) are not tied to a single grid
+    const ticketMatch = winningMatches.find(m => m.grid === undefined);
 
     if (!ticket || !ticket.grids) {
         return (
@@ -78,15 +76,13 @@ export function LotoTicket({
                         <div className="grid grid-cols-9 gap-[2px] bg-[var(--border)] p-[2px] rounded-lg">
                             {/* Rows */}
                             {grid.rows.map((row, rowIndex) => {
-                                const status = gridsStatus[gridIndex][rowIndex];
-
                                 return row.cells.map((num, colIndex) => {
                                     const isNumber = num !== null;
                                     const isCalled = isNumber && calledNumbers.includes(num);
                                     // Visual mark: Either manually marked OR (autoMark enabled AND number is called)
                                     // But since we implemented auto-marking in parent state, rely on row.marked
                                     const isMarked = isNumber && row.marked[colIndex];
-                                    const isWinningRow = status.isWinner;
+                                    const isWinningCell = isNumber && winningNumbers.has(num);
 
                                     if (!isNumber) {
                                         return (
@@ -106,7 +102,7 @@ export function LotoTicket({
                                                 ${isMarked
                                                     ? 'bg-yellow-400 text-black shadow-inner font-extrabold'
                                                     : 'bg-[var(--background)] text-[var(--foreground)] hover:bg-[var(--accent)]/10'}
-                                                ${isWinningRow && isMarked ? 'ring-2 ring-yellow-400 animate-pulse' : ''}
+                                                ${isWinningCell && isMarked ? 'ring-2 ring-yellow-400 animate-pulse' : ''}
                                             `}
                                             onClick={() => onMarkNumber(gridIndex, rowIndex, colIndex)}
                                             whileTap={{ scale: 0.9 }}
@@ -118,39 +114,45 @@ export function LotoTicket({
                             })}
                         </div>
 
-                        {/* Kinh Button for Row (Overlay or Side?) */}
-                        {/* Standard Loto: Kinh is for the row. We have 3 rows per grid. */}
-                        {/* We can show a small button next to the row? Or check if any row is winner. */}
-                        {grid.rows.map((_, rowIndex) => {
-                            const status = gridsStatus[gridIndex][rowIndex];
-                            if (status.isWinner) {
-                                return (
-                                    <motion.div
-                                        key={`kinh-${rowIndex}`}
-                                        className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-[1px] z-10 rounded-lg pointer-events-none"
-                                        initial={{ opacity: 0 }}
-                                        animate={{ opacity: 1 }}
-                                    >
-                                        <div className="bg-gradient-to-r from-yellow-500 to-red-600 p-[2px] rounded-lg shadow-2xl pointer-events-auto transform scale-110">
-                                            <div className="bg-black/80 px-4 py-2 rounded-md flex flex-col items-center">
-                                                <span className="text-yellow-400 font-bold text-lg animate-pulse">KINH RỒI!</span>
-                                                <button
-                                                    className="mt-1 px-4 py-1 bg-red-600 hover:bg-red-700 text-white text-xs font-bold rounded-full animate-bounce"
-                                                    onClick={() => onCallKinh(gridIndex, rowIndex)}
-                                                >
-                                                    HÔ KINH NGAY!
-                                                </button>
-                                            </div>
+                        {/* Kinh overlay once this grid completes the win pattern */}
+                        {(() => {
+                            const match = winningMatches.find(m => m.grid === gridIndex);
+                            if (!match) return null;
+                            return (
+                                <motion.div
+                                    className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-[1px] z-10 rounded-lg pointer-events-none"
+                                    initial={{ opacity: 0 }}
+                                    animate={{ opacity: 1 }}
+                                >
+                                    <div className="bg-gradient-to-r from-yellow-500 to-red-600 p-[2px] rounded-lg shadow-2xl pointer-events-auto transform scale-110">
+                                        <div className="bg-black/80 px-4 py-2 rounded-md flex flex-col items-center">
+                                            <span className="text-yellow-400 font-bold text-lg animate-pulse">KINH RỒI!</span>
+                                            <button
+                                                className="mt-1 px-4 py-1 bg-red-600 hover:bg-red-700 text-white text-xs font-bold rounded-full animate-bounce"
+                                                onClick={() => onCallKinh(gridIndex, match.row)}
+                                            >
+                                                HÔ KINH NGAY!
+                                            </button>
                                         </div>
-                                    </motion.div>
-                                );
-                            }
-                            return null;
-                        })}
+                                    </div>
+                                </motion.div>
+                            );
+                        })()}
                     </div>
                 ))}
             </div>
 
+            {ticketMatch && (
+                <div className="text-center mt-6">
+                    <button
+                        className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white font-bold rounded-full animate-bounce"
+                        onClick={() => onCallKinh()}
+                    >
+                        KINH RỒI! HÔ KINH NGAY!
+                    </button>
+                </div>
+            )}
+
             <div className="text-center mt-6">
                 <p className="text-xs uppercase tracking-widest text-[var(--neon-gold)] font-bold">
                     Loại đặc biệt - Tấn tài tấn lộc
@@ -2,21 +2,17 @@
 
 import { useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { getNumberPool, type GameFormat } from '@/lib/game-formats';
 
 interface NumberTrackerProps {
     calledNumbers: number[];
     lastNumber: number | null;
+    format: GameFormat;
 }
 
-export function NumberTracker({ calledNumbers, lastNumber }: NumberTrackerProps) {
-    // Generate grid of 1-99
-    const numbers = useMemo(() => {
-        const nums = [];
-        for (let i = 1; i <= 99; i++) {
-            nums.push(i);
-        }
-        return nums;
-    }, []);
+export function NumberTracker({ calledNumbers, lastNumber, format }: NumberTrackerProps) {
+    // Generate grid of 1 up to the format's last number
+    const numbers = useMemo(() => getNumberPool(format), [format]);
 
     return (
         <div className="glass-card p-4">
@@ -34,7 +30,7 @@ export function NumberTracker({ calledNumbers, lastNumber }: NumberTrackerProps)
                     <span className="text-[var(--text-muted)]"> đã gọi</span>
                 </div>
                 <div className="text-center">
-                    <span className="text-[var(--text-muted)]">{99 - calledNumbers.length}</span>
+                    <span className="text-[var(--text-muted)]">{format.maxNumber - calledNumbers.length}</span>
                     <span className="text-[var(--text-muted)]"> còn lại</span>
                 </div>
             </div>
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import type { SocketError } from '@/lib/errors';
+import { REACTIONS, type Reaction } from '@/lib/reactions';
+
+interface ReactionBarProps {
+    muted: boolean; // the host muted this player
+    onReact: (reaction: Reaction) => Promise<SocketError | null>;
+}
+
+export function ReactionBar({ muted, onReact }: ReactionBarProps) {
+    const [error, setError] = useState<string | null>(null);
+
+    if (muted) {
+        return (
+            <p className="text-xs text-center text-[var(--text-muted)]">🔇 Bạn đã bị chủ phòng tắt tiếng</p>
+        );
+    }
+
+    const react = async (reaction: Reaction) => {
+        const refused = await onReact(reaction);
+        setError(refused?.message ?? null);
+    };
+
+    return (
+        <div>
+            <div className="flex justify-center gap-2">
+                {REACTIONS.map(reaction => (
+                    <button
+                        key={reaction}
+                        onClick={() => react(reaction)}
+                        className="text-2xl px-2 rounded-lg hover:bg-[var(--surface-hover)] transition-transform active:scale-90"
+                    >
+                        {reaction}
+                    </button>
+                ))}
+            </div>
+            {error && <p className="text-xs text-center text-red-400 mt-1">{error}</p>}
+        </div>
+    );
+}
+
+export default ReactionBar;
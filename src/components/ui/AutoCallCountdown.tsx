@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AutoCallSchedule } from '@/hooks/useSocket';
+
+interface AutoCallCountdownProps {
+    status: AutoCallSchedule | null;
+    className?: string;
+}
+
+export function AutoCallCountdown({ status, className = '' }: AutoCallCountdownProps) {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (status?.state !== 'running') return;
+        const timer = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(timer);
+    }, [status?.state]);
+
+    if (!status || status.state === 'stopped') return null;
+
+    if (status.state === 'paused') {
+        return (
+            <p className={`text-sm text-[var(--neon-gold)] ${className}`}>
+                ⏸️ Tạm dừng quay số
+            </p>
+        );
+    }
+
+    const seconds = status.nextCallAt !== null
+        ? Math.max(0, Math.ceil((status.nextCallAt - now) / 1000))
+        : status.speed;
+
+    return (
+        <p className={`text-sm text-[var(--text-muted)] ${className}`}>
+            Số tiếp theo sau <span className="text-[var(--neon-cyan)] font-bold">{seconds}s</span>
+        </p>
+    );
+}
+
+export default AutoCallCountdown;
@@ -0,0 +1,32 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import type { ShownReaction } from '@/hooks/useSocket';
+
+interface ReactionFeedProps {
+    reactions: ShownReaction[];
+}
+
+// Reactions float up the side of the screen for a few seconds
+export function ReactionFeed({ reactions }: ReactionFeedProps) {
+    return (
+        <div className="fixed right-4 bottom-24 z-30 flex flex-col items-end gap-1 pointer-events-none">
+            <AnimatePresence>
+                {reactions.map(r => (
+                    <motion.div
+                        key={r.id}
+                        className="flex items-center gap-2 px-3 py-1 rounded-full bg-[var(--card-bg)] border border-[var(--border)]"
+                        initial={{ opacity: 0, x: 40 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, y: -20 }}
+                    >
+                        <span className="text-xs text-[var(--text-muted)] max-w-[8rem] truncate">{r.nickname}</span>
+                        <span className="text-xl">{r.reaction}</span>
+                    </motion.div>
+                ))}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+export default ReactionFeed;
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface StartCountdownProps {
+    startAt: number | null; // epoch ms of the scheduled start
+    minPlayers: number;
+    playerCount: number;    // players besides the host
+    className?: string;
+}
+
+function formatRemaining(ms: number): string {
+    const total = Math.ceil(ms / 1000);
+    const days = Math.floor(total / 86400);
+    const hours = Math.floor((total % 86400) / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = total % 60;
+    const clock = [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+    return days > 0 ? `${days} ngày ${clock}` : clock;
+}
+
+export function StartCountdown({ startAt, minPlayers, playerCount, className = '' }: StartCountdownProps) {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (startAt === null) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [startAt]);
+
+    if (startAt === null) return null;
+
+    const remaining = startAt - now;
+    const missing = Math.max(0, minPlayers - playerCount);
+
+    return (
+        <div className={`text-center ${className}`}>
+            {remaining > 0 ? (
+                <>
+                    <p className="text-sm text-[var(--text-muted)]">
+                        Bắt đầu lúc {new Date(startAt).toLocaleString('vi-VN', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: '2-digit' })}
+                    </p>
+                    <p className="text-3xl font-mono font-bold text-[var(--neon-cyan)]">{formatRemaining(remaining)}</p>
+                </>
+            ) : (
+                <p className="text-[var(--neon-gold)]">
+                    {missing > 0 ? 'Đang chờ thêm người chơi...' : 'Sắp bắt đầu...'}
+                </p>
+            )}
+            {minPlayers > 0 && (
+                <p className={`text-xs mt-1 ${missing > 0 ? 'text-[var(--neon-gold)]' : 'text-[var(--text-muted)]'}`}>
+                    Cần ít nhất {minPlayers} người chơi (đang có {playerCount})
+                </p>
+            )}
+        </div>
+    );
+}
+
+export default StartCountdown;
@@ -0,0 +1,69 @@
+// Socket.io client hook for the public lobby
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import type { LobbyRoom } from '@/lib/game-types';
+import {
+    LOBBY_NAMESPACE,
+    PROTOCOL_VERSION,
+    type ClientToServerEvents,
+    type HandshakeAuth,
+    type ServerToClientEvents,
+} from '@/lib/socket-events';
+import { isSocketError, type SocketError } from '@/lib/errors';
+
+type LobbySocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+interface UseLobbyReturn {
+    rooms: LobbyRoom[];
+    isLoading: boolean; // no listing received yet
+    isConnected: boolean;
+    connectionError: SocketError | null;
+}
+
+export function useLobby(): UseLobbyReturn {
+    const [rooms, setRooms] = useState<LobbyRoom[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isConnected, setIsConnected] = useState(false);
+    const [connectionError, setConnectionError] = useState<SocketError | null>(null);
+
+    useEffect(() => {
+        const auth: HandshakeAuth = { protocolVersion: PROTOCOL_VERSION };
+        const socket: LobbySocket = io(LOBBY_NAMESPACE, {
+            path: '/socket.io',
+            transports: ['websocket', 'polling'],
+            auth,
+        });
+
+        socket.on('connect', () => {
+            setIsConnected(true);
+            setConnectionError(null);
+        });
+
+        // Refused by the server's handshake; retrying would not help
+        socket.on('connect_error', (err: Error & { data?: unknown }) => {
+            if (!isSocketError(err.data)) return;
+            setConnectionError(err.data);
+            setIsLoading(false);
+        });
+
+        socket.on('disconnect', () => {
+            setIsConnected(false);
+        });
+
+        socket.on('lobby:rooms', (listed: LobbyRoom[]) => {
+            setRooms(listed);
+            setIsLoading(false);
+        });
+
+        return () => {
+            socket.close();
+        };
+    }, []);
+
+    return { rooms, isLoading, isConnected, connectionError };
+}
+
+export default useLobby;
@@ -0,0 +1,91 @@
+// Room templates hook: built-in presets plus the host's own, kept in localStorage
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    BUILT_IN_TEMPLATES,
+    parseTemplateFile,
+    toTemplateFile,
+    type RoomTemplate,
+    type TemplateSettings,
+} from '@/lib/room-templates';
+import { RoomTemplateSchema } from '@/lib/validation';
+
+const STORAGE_KEY = 'loto_templates';
+const NO_TEMPLATES: RoomTemplate[] = [];
+
+// The saved templates as an external store: parsed again only when the stored JSON
+// changes, and shared with other tabs through the storage event
+const listeners = new Set<() => void>();
+let cachedJson: string | null = null;
+let cachedTemplates: RoomTemplate[] = NO_TEMPLATES;
+
+function readSaved(): RoomTemplate[] {
+    const json = localStorage.getItem(STORAGE_KEY);
+    if (json !== cachedJson) {
+        cachedJson = json;
+        cachedTemplates = (json && parseTemplateFile(json)) || NO_TEMPLATES;
+    }
+    return cachedTemplates;
+}
+
+function writeSaved(templates: RoomTemplate[]) {
+    localStorage.setItem(STORAGE_KEY, toTemplateFile(templates));
+    listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    window.addEventListener('storage', listener);
+    return () => {
+        listeners.delete(listener);
+        window.removeEventListener('storage', listener);
+    };
+}
+
+interface UseRoomTemplatesReturn {
+    templates: RoomTemplate[]; // built-in presets first, then this device's
+    saveTemplate: (name: string, settings: TemplateSettings) => boolean;
+    deleteTemplate: (id: string) => void;
+    exportTemplates: () => string; // this device's templates as JSON
+    importTemplates: (json: string) => number | null; // templates added, null for an invalid file
+}
+
+export function useRoomTemplates(): UseRoomTemplatesReturn {
+    // None during server rendering, where there is no localStorage
+    const saved = useSyncExternalStore(subscribe, readSaved, () => NO_TEMPLATES);
+
+    const saveTemplate = useCallback((name: string, settings: TemplateSettings): boolean => {
+        const parsed = RoomTemplateSchema.safeParse({ name, settings });
+        if (!parsed.success) return false;
+
+        const template: RoomTemplate = { id: uuidv4(), name: parsed.data.name, settings: parsed.data.settings };
+        writeSaved([...readSaved(), template]);
+        return true;
+    }, []);
+
+    const deleteTemplate = useCallback((id: string) => {
+        writeSaved(readSaved().filter(t => t.id !== id));
+    }, []);
+
+    const exportTemplates = useCallback(() => toTemplateFile(saved), [saved]);
+
+    const importTemplates = useCallback((json: string): number | null => {
+        const imported = parseTemplateFile(json, true);
+        if (!imported) return null;
+        writeSaved([...readSaved(), ...imported]);
+        return imported.length;
+    }, []);
+
+    return {
+        templates: [...BUILT_IN_TEMPLATES, ...saved],
+        saveTemplate,
+        deleteTemplate,
+        exportTemplates,
+        importTemplates,
+    };
+}
+
+export default useRoomTemplates;
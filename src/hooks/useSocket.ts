@@ -4,40 +4,128 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
-import type { Room, LotoTicket, ValidationResult, Player, RoomSettings } from '@/lib/game-types';
+import { v4 as uuidv4 } from 'uuid';
+import type { Room, LotoTicket, ValidationResult, Player, RoomSettings, WinnerInfo, PrizeAward, DrawCommitment, AutoCallStatus, PresenceStatus, CoHostPermission, ClaimRecord, JoinRequest, RoomInvite } from '@/lib/game-types';
+import {
+    PROTOCOL_VERSION,
+    type ClientToServerEvents,
+    type HandshakeAuth,
+    type JoinCredentials,
+    type KinhClaim,
+    type PlayerSession,
+    type RejoinState,
+    type RoomAccess,
+    type ServerToClientEvents,
+} from '@/lib/socket-events';
+import { isSocketError, socketError, type SocketError } from '@/lib/errors';
+import type { EditableRoomSettings } from '@/lib/room-settings';
+import { REACTION_SHOW_MS, type Reaction, type RoomReaction } from '@/lib/reactions';
+
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const SPIN_TIMEOUT_MS = 5000;
+const SPIN_RETRIES = 2;
+// Reactions on screen at once, the oldest go first
+const MAX_REACTIONS = 8;
+
+// Auto-call status with the next call converted to local time for countdowns
+export interface AutoCallSchedule extends AutoCallStatus {
+    nextCallAt: number | null;
+}
+
+// A reaction as shown, keyed for the list
+export interface ShownReaction extends RoomReaction {
+    id: string;
+}
+
+// Identifies this browser across nicknames so a ban sticks
+function getDeviceId(): string {
+    let deviceId = localStorage.getItem('loto_device');
+    if (!deviceId) {
+        deviceId = uuidv4();
+        localStorage.setItem('loto_device', deviceId);
+    }
+    return deviceId;
+}
+
+function toSchedule(status: AutoCallStatus): AutoCallSchedule {
+    return {
+        ...status,
+        nextCallAt: status.nextCallIn !== null ? Date.now() + status.nextCallIn : null,
+    };
+}
 
 interface UseSocketOptions {
     autoConnect?: boolean;
 }
 
 interface UseSocketReturn {
-    socket: Socket | null;
+    socket: GameSocket | null;
     isConnected: boolean;
+    connectionError: SocketError | null; // the server refused the connection, e.g. an outdated client
     room: Room | null;
     calledNumbers: number[];
     lastNumber: number | null;
+    winners: WinnerInfo[];
+    drawCommitment: DrawCommitment | null;
+    autoCall: AutoCallSchedule | null;
+    presence: Record<string, PresenceStatus>; // by player id
+    playerId: string | null; // this client's player in the room
+    isSpectator: boolean; // watching read-only, see becomePlayer
+    joinRequests: JoinRequest[]; // players waiting for approval, for moderators
+    pendingJoin: { roomCode: string; nickname: string } | null; // this client waits for approval
+    reactions: ShownReaction[]; // sent in the last few seconds, oldest first
     // Host actions
     createRoom: (nickname: string, settings?: Partial<RoomSettings>) => Promise<Room | null>;
     spinNumber: () => Promise<number | null>;
     resetGame: () => void;
     startGame: () => void;
+    pauseGame: () => void;
+    resumeGame: () => void;
+    setCallSpeed: (speed: number) => Promise<{ ok: boolean; error?: SocketError }>;
+    scheduleStart: (startAt: number | null, minPlayers: number) => Promise<{ ok: boolean; error?: SocketError }>;
+    updateSettings: (changes: Partial<EditableRoomSettings>) => Promise<{ ok: boolean; error?: SocketError }>;
     validateTicket: (ticketId: string) => Promise<ValidationResult>;
     validateNumbers: (numbers: number[]) => Promise<ValidationResult>;
+    approveWinner: (claim: KinhClaim) => Promise<{ approved: boolean; error?: SocketError }>;
+    rejectWinner: (claim: KinhClaim) => void;
+    setCoHost: (playerId: string, permissions: CoHostPermission[]) => Promise<{ ok: boolean; error?: SocketError }>;
+    setRoomAccess: (access: RoomAccess) => Promise<{ ok: boolean; error?: SocketError }>;
+    createInvite: (maxUses: number, expiresInMinutes: number) => Promise<{ invite: RoomInvite | null; error?: SocketError }>;
+    answerJoinRequest: (requestId: string, admit: boolean) => Promise<{ ok: boolean; error?: SocketError }>;
+    kickPlayer: (playerId: string) => Promise<{ ok: boolean; error?: SocketError }>;
+    banPlayer: (playerId: string) => Promise<{ ok: boolean; error?: SocketError }>;
+    mutePlayer: (playerId: string, muted: boolean) => Promise<{ ok: boolean; error?: SocketError }>;
     // Player actions
-    joinRoom: (code: string, nickname: string) => Promise<Room | null>;
+    joinRoom: (
+        code: string,
+        nickname: string,
+        credentials?: JoinCredentials,
+        spectate?: boolean
+    ) => Promise<{ room: Room | null; error?: SocketError }>;
+    becomePlayer: () => Promise<{ ok: boolean; error?: SocketError }>;
     leaveRoom: () => void;
+    closeRoom: () => void;
     createTickets: (count: number) => Promise<LotoTicket[]>;
-    markNumber: (ticketId: string, grid: number, row: number, index: number) => void;
-    callKinh: (ticketId: string, grid: number, row: number) => Promise<ValidationResult>;
+    markNumber: (ticketId: string, grid: number, row: number, index: number) => Promise<SocketError | null>;
+    callKinh: (ticketId: string, grid?: number, row?: number) => Promise<ValidationResult>;
+    sendReaction: (reaction: Reaction) => Promise<SocketError | null>;
     // Events
     onNumberCalled: (handler: (data: { number: number; folkName: string; calledNumbers: number[] }) => void) => void;
-    onWinner: (handler: (data: { winnerId: string; nickname: string; ticketId: string; row: number }) => void) => void;
-    onKinhCalled: (handler: (data: { playerId: string; nickname: string; ticketId: string; row: number }) => void) => void;
+    onWinner: (handler: (data: PrizeAward) => void) => void;
+    onPrizeWon: (handler: (award: PrizeAward) => void) => void;
+    onKinhCalled: (handler: (claim: KinhClaim) => void) => void;
+    onClaimResolved: (handler: (claim: ClaimRecord) => void) => void;
     onPlayerJoined: (handler: (player: Player) => void) => void;
     onPlayerLeft: (handler: (playerId: string) => void) => void;
     onRoomClosed: (handler: () => void) => void;
+    onKicked: (handler: (reason: string) => void) => void;
+    onJoinDenied: (handler: () => void) => void;
     onAudioPlaySequence: (handler: (number: number) => void) => void;
     onGameReset: (handler: () => void) => void;
+    onStartReminder: (handler: (startsIn: number) => void) => void;
+    onRejoined: (handler: (state: RejoinState) => void) => void; // the room's state after every rejoin
+    onError: (handler: (error: SocketError) => void) => void;
     // New
     restoreSession: () => Promise<{ tickets: LotoTicket[] } | null>;
     clearSession: () => void;
@@ -46,40 +134,71 @@ interface UseSocketReturn {
 export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     const { autoConnect = true } = options;
 
-    const [socket, setSocket] = useState<Socket | null>(null);
+    const [socket, setSocket] = useState<GameSocket | null>(null);
+    const [connectionError, setConnectionError] = useState<SocketError | null>(null);
     const [isConnected, setIsConnected] = useState(false);
     const [room, setRoom] = useState<Room | null>(null);
     const [calledNumbers, setCalledNumbers] = useState<number[]>([]);
     const [lastNumber, setLastNumber] = useState<number | null>(null);
+    const [winners, setWinners] = useState<WinnerInfo[]>([]);
+    const [drawCommitment, setDrawCommitment] = useState<DrawCommitment | null>(null);
+    const [autoCall, setAutoCall] = useState<AutoCallSchedule | null>(null);
+    const [presence, setPresence] = useState<Record<string, PresenceStatus>>({});
+    const [playerId, setPlayerId] = useState<string | null>(null);
+    const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+    // Join waiting for the host's approval
+    const [pendingJoin, setPendingJoin] = useState<{ roomCode: string; nickname: string } | null>(null);
+    const [reactions, setReactions] = useState<ShownReaction[]>([]);
 
     const handlersRef = useRef<{
         onNumberCalled?: (data: { number: number; folkName: string; calledNumbers: number[] }) => void;
-        onWinner?: (data: { winnerId: string; nickname: string; ticketId: string; row: number }) => void;
-        onKinhCalled?: (data: { playerId: string; nickname: string; ticketId: string; row: number }) => void;
+        onWinner?: (data: PrizeAward) => void;
+        onPrizeWon?: (award: PrizeAward) => void;
+        onKinhCalled?: (claim: KinhClaim) => void;
+        onClaimResolved?: (claim: ClaimRecord) => void;
         onPlayerJoined?: (player: Player) => void;
         onPlayerLeft?: (playerId: string) => void;
         onRoomClosed?: () => void;
+        onKicked?: (reason: string) => void;
+        onJoinDenied?: () => void;
         onAudioPlaySequence?: (number: number) => void;
         onGameReset?: () => void;
+        onStartReminder?: (startsIn: number) => void;
+        onRejoined?: (state: RejoinState) => void;
+        onError?: (error: SocketError) => void;
     }>({});
 
     // Initialize socket connection
     useEffect(() => {
         if (!autoConnect) return;
 
-        const newSocket = io({
+        const auth: HandshakeAuth = { protocolVersion: PROTOCOL_VERSION, deviceId: getDeviceId() };
+        const newSocket: GameSocket = io({
             path: '/socket.io',
             transports: ['websocket', 'polling'],
+            auth,
         });
 
         newSocket.on('connect', () => {
             console.log('🔌 Connected to server');
             setIsConnected(true);
+            setConnectionError(null);
+        });
+
+        // Refused by the server's handshake; retrying would not help
+        newSocket.on('connect_error', (err: Error & { data?: unknown }) => {
+            if (!isSocketError(err.data)) return;
+            console.error(`Connection refused [${err.data.code}]:`, err.message);
+            setConnectionError(err.data);
         });
 
-        newSocket.on('disconnect', () => {
+        newSocket.on('disconnect', (reason) => {
             console.log('❌ Disconnected from server');
             setIsConnected(false);
+            // Kicked or banned: the server dropped us and socket.io won't retry by itself,
+            // but the player may still join another room (or this one, if only kicked).
+            // Any other server disconnect rejoins with the stored session once connected.
+            if (reason === 'io server disconnect') newSocket.connect();
         });
 
         newSocket.on('room:updated', (updatedRoom: Room) => {
@@ -92,6 +211,29 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
             handlersRef.current.onNumberCalled?.(data);
         });
 
+        newSocket.on('game:started', (commitment: DrawCommitment) => {
+            setWinners([]);
+            setDrawCommitment(commitment);
+        });
+
+        // Kept after game:reset so players can still verify the last game
+        newSocket.on('game:seed-revealed', (commitment: DrawCommitment) => {
+            setDrawCommitment(commitment);
+        });
+
+        newSocket.on('game:auto-call', (status: AutoCallStatus) => {
+            setAutoCall(toSchedule(status));
+        });
+
+        newSocket.on('room:presence', ({ playerId, status }: { playerId: string; status: PresenceStatus }) => {
+            setPresence(prev => ({ ...prev, [playerId]: status }));
+        });
+
+        newSocket.on('game:prize-won', (data) => {
+            setWinners(data.winners);
+            handlersRef.current.onPrizeWon?.(data.award);
+        });
+
         newSocket.on('game:winner', (data) => {
             handlersRef.current.onWinner?.(data);
         });
@@ -100,6 +242,10 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
             handlersRef.current.onKinhCalled?.(data);
         });
 
+        newSocket.on('game:claim-resolved', (claim) => {
+            handlersRef.current.onClaimResolved?.(claim);
+        });
+
         newSocket.on('player:joined', (player) => {
             handlersRef.current.onPlayerJoined?.(player);
         });
@@ -112,9 +258,42 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
             setRoom(null);
             setCalledNumbers([]);
             setLastNumber(null);
+            setAutoCall(null);
+            setPresence({});
+            setPlayerId(null);
             handlersRef.current.onRoomClosed?.();
         });
 
+        // Removed from the room; the session token no longer works
+        newSocket.on('room:kicked', (reason: string) => {
+            localStorage.removeItem('loto_session');
+            setRoom(null);
+            setCalledNumbers([]);
+            setLastNumber(null);
+            setAutoCall(null);
+            setPresence({});
+            setPlayerId(null);
+            handlersRef.current.onKicked?.(reason);
+        });
+
+        newSocket.on('room:join-requests', (requests: JoinRequest[]) => {
+            setJoinRequests(requests);
+        });
+
+        newSocket.on('room:join-denied', () => {
+            setPendingJoin(null);
+            handlersRef.current.onJoinDenied?.();
+        });
+
+        // Shown for a few seconds, then dropped
+        newSocket.on('room:reaction', (reaction: RoomReaction) => {
+            const shown = { ...reaction, id: uuidv4() };
+            setReactions(prev => [...prev, shown].slice(-MAX_REACTIONS));
+            setTimeout(() => {
+                setReactions(prev => prev.filter(r => r.id !== shown.id));
+            }, REACTION_SHOW_MS);
+        });
+
         newSocket.on('audio:play-sequence', (number) => {
             handlersRef.current.onAudioPlaySequence?.(number);
         });
@@ -122,9 +301,20 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
         newSocket.on('game:reset', () => {
             setCalledNumbers([]);
             setLastNumber(null);
+            setWinners([]);
             handlersRef.current.onGameReset?.();
         });
 
+        newSocket.on('game:start-reminder', (startsIn: number) => {
+            handlersRef.current.onStartReminder?.(startsIn);
+        });
+
+        // Failures of events sent without an ack
+        newSocket.on('error', (error: SocketError) => {
+            console.error(`Server error [${error.code}]:`, error.message);
+            handlersRef.current.onError?.(error);
+        });
+
         setSocket(newSocket);
 
         return () => {
@@ -133,7 +323,7 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     }, [autoConnect]);
 
     // Save session helper
-    const saveSession = useCallback((session: { roomCode: string; oderId: string; nickname: string; isHost: boolean }) => {
+    const saveSession = useCallback((session: { roomCode: string; oderId: string; token: string; nickname: string; isHost: boolean }) => {
         if (typeof window !== 'undefined') {
             localStorage.setItem('loto_session', JSON.stringify(session));
         }
@@ -154,29 +344,40 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
 
         try {
             const sessionObj = JSON.parse(stored);
-            if (!sessionObj || !sessionObj.roomCode || !sessionObj.oderId) return null;
-            const { roomCode, oderId } = sessionObj;
+            // Sessions saved before tokens existed cannot rejoin
+            if (!sessionObj || !sessionObj.roomCode || !sessionObj.token) {
+                clearSession();
+                return null;
+            }
+            const { roomCode, token } = sessionObj;
 
             return new Promise((resolve) => {
-                socket.emit('room:rejoin', roomCode, oderId, (data: {
-                    room: Room,
-                    tickets: LotoTicket[],
-                    calledNumbers: number[],
-                    lastNumber: number | null
-                } | null, error?: string) => {
+                socket.emit('room:rejoin', roomCode, token, (data: RejoinState | null, error?: SocketError) => {
                     if (error || !data) {
-                        console.log('Rejoin failed:', error);
+                        console.log('Rejoin failed:', error?.code);
                         clearSession();
+                        // Without a rejoin this socket gets none of the room's events
+                        setRoom(null);
+                        setPlayerId(null);
                         resolve(null);
                         return;
                     }
 
                     console.log('🔄 Rejoined session:', data.room.code);
                     setRoom(data.room);
+                    setPlayerId(data.session.playerId);
+                    // Keep the refreshed token
+                    saveSession({ ...sessionObj, oderId: data.session.playerId, token: data.session.token });
                     // Manually restore local state from server data if needed in future
                     // But ticket components might need updating from server data
                     // For now, simpler implementation:
                     setLastNumber(data.lastNumber);
+                    setWinners(data.winners ?? []);
+                    setDrawCommitment(data.drawCommitment ?? null);
+                    setAutoCall(data.autoCall ? toSchedule(data.autoCall) : null);
+                    setPresence(data.presence ?? {});
+                    setJoinRequests(data.joinRequests ?? []);
+                    handlersRef.current.onRejoined?.(data);
 
                     resolve({ tickets: data.tickets });
                 });
@@ -186,14 +387,43 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
             clearSession();
             return null;
         }
-    }, [socket, isConnected, clearSession]);
+    }, [socket, isConnected, saveSession, clearSession]);
 
-    // Auto restore on connect
+    // Rejoin on every connect, reconnects included: a new socket is in no Socket.IO room
+    // and unknown to the server until it sends room:rejoin, even if the room is still shown
     useEffect(() => {
-        if (isConnected && !room) {
+        if (isConnected) {
             restoreSession();
         }
-    }, [isConnected, room, restoreSession]);
+    }, [isConnected, restoreSession]);
+
+    // Admitted from the approval queue: enter the room with the session we were given
+    useEffect(() => {
+        if (!socket || !pendingJoin) return;
+
+        const handleAdmitted = (roomCode: string, session: PlayerSession) => {
+            saveSession({ roomCode, oderId: session.playerId, token: session.token, nickname: pendingJoin.nickname, isHost: false });
+            setPendingJoin(null);
+            restoreSession();
+        };
+
+        socket.on('room:admitted', handleAdmitted);
+        return () => {
+            socket.off('room:admitted', handleAdmitted);
+        };
+    }, [socket, pendingJoin, saveSession, restoreSession]);
+
+    // Tell the room when this tab is hidden or shown again
+    useEffect(() => {
+        if (!socket || !room) return;
+
+        const handleVisibility = () => {
+            socket.emit('player:presence', document.visibilityState === 'visible' ? 'online' : 'away');
+        };
+
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => document.removeEventListener('visibilitychange', handleVisibility);
+    }, [socket, room]);
 
     // Host: Create room
     const createRoom = useCallback((nickname: string, settings: Partial<RoomSettings> = {}): Promise<Room | null> => {
@@ -202,15 +432,21 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
                 resolve(null);
                 return;
             }
-            socket.emit('room:create', nickname, settings, (newRoom: Room) => {
+            socket.emit('room:create', nickname, settings, (newRoom: Room | null, error?: SocketError, session?: PlayerSession) => {
+                if (!newRoom) {
+                    console.error('Create room error:', error?.message);
+                    resolve(null);
+                    return;
+                }
                 setRoom(newRoom);
                 // Save session for host
-                // Host ID is the first player's ID
-                const hostPlayer = newRoom.players.find(p => p.socketId === socket.id);
-                if (hostPlayer) {
+                if (session) {
+                    setPresence({ [session.playerId]: 'online' });
+                    setPlayerId(session.playerId);
                     saveSession({
                         roomCode: newRoom.code,
-                        oderId: hostPlayer.oderId,
+                        oderId: session.playerId,
+                        token: session.token,
                         nickname,
                         isHost: true
                     });
@@ -221,46 +457,78 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     }, [socket, saveSession]);
 
     // Player: Join room
-    const joinRoom = useCallback((code: string, nickname: string): Promise<Room | null> => {
+    // Join as a player, or with `spectate` to watch without tickets
+    const joinRoom = useCallback((
+        code: string,
+        nickname: string,
+        credentials: JoinCredentials = {},
+        spectate = false
+    ): Promise<{ room: Room | null; error?: SocketError }> => {
         return new Promise((resolve) => {
             if (!socket) {
-                resolve(null);
+                resolve({ room: null, error: socketError('NOT_CONNECTED') });
                 return;
             }
-            socket.emit('room:join', code, nickname, (joinedRoom: Room | null, error?: string) => {
+            socket.emit(spectate ? 'room:spectate' : 'room:join', code, nickname, credentials, (joinedRoom: Room | null, error?: SocketError, session?: PlayerSession) => {
                 if (error) {
-                    console.error('Join error:', error);
-                    resolve(null);
+                    console.error('Join error:', error.message);
+                    setPendingJoin(error.code === 'AWAITING_APPROVAL' ? { roomCode: code, nickname } : null);
+                    resolve({ room: null, error });
                     return;
                 }
-                if (joinedRoom) {
-                    // Find my player ID
-                    const myPlayer = joinedRoom.players.find(p => p.socketId === socket.id);
-                    if (myPlayer) {
-                        saveSession({
-                            roomCode: joinedRoom.code,
-                            oderId: myPlayer.oderId,
-                            nickname,
-                            isHost: false
-                        });
-                    }
+                if (joinedRoom && session) {
+                    setPlayerId(session.playerId);
+                    saveSession({
+                        roomCode: joinedRoom.code,
+                        oderId: session.playerId,
+                        token: session.token,
+                        nickname,
+                        isHost: false
+                    });
                 }
 
                 setRoom(joinedRoom);
-                if (joinedRoom?.currentSession) {
-                    setCalledNumbers(joinedRoom.currentSession.calledNumbers.map(c => c.number));
-                }
-                resolve(joinedRoom);
+                resolve({ room: joinedRoom });
             });
         });
     }, [socket, saveSession]);
 
+    // Spectator: take a seat while the room is waiting; the session stays the same
+    const becomePlayer = useCallback((): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('room:become-player', (updated: Room | null, error?: SocketError) => {
+                if (updated) setRoom(updated);
+                resolve({ ok: updated !== null, error });
+            });
+        });
+    }, [socket]);
+
     // Leave room
     const leaveRoom = useCallback(() => {
         socket?.emit('room:leave');
+        setPendingJoin(null);
         setRoom(null);
         setCalledNumbers([]);
         setLastNumber(null);
+        setAutoCall(null);
+        setPresence({});
+        setPlayerId(null);
+        clearSession();
+    }, [socket, clearSession]);
+
+    // Host: Close the room for everyone
+    const closeRoom = useCallback(() => {
+        socket?.emit('room:close');
+        setRoom(null);
+        setCalledNumbers([]);
+        setLastNumber(null);
+        setAutoCall(null);
+        setPresence({});
+        setPlayerId(null);
         clearSession();
     }, [socket, clearSession]);
 
@@ -276,13 +544,76 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
                 resolve(null);
                 return;
             }
-            socket.emit('game:spin', (number: number | null, error?: string) => {
-                if (error) {
-                    console.error('Spin error:', error);
-                    resolve(null);
-                    return;
-                }
-                resolve(number);
+
+            // Retries reuse the spin id so the server answers with the same number
+            const spinId = uuidv4();
+            const attempt = (retriesLeft: number) => {
+                socket.timeout(SPIN_TIMEOUT_MS).emit('game:spin', spinId, (err: Error | null, number: number | null, error?: SocketError) => {
+                    if (err) {
+                        if (retriesLeft > 0) {
+                            attempt(retriesLeft - 1);
+                        } else {
+                            console.error('Spin timed out');
+                            resolve(null);
+                        }
+                        return;
+                    }
+                    if (error) {
+                        console.error('Spin error:', error.message);
+                        resolve(null);
+                        return;
+                    }
+                    resolve(number);
+                });
+            };
+            attempt(SPIN_RETRIES);
+        });
+    }, [socket]);
+
+    // Host: Pause / resume auto-call
+    const pauseGame = useCallback(() => {
+        socket?.emit('game:pause');
+    }, [socket]);
+
+    const resumeGame = useCallback(() => {
+        socket?.emit('game:resume');
+    }, [socket]);
+
+    // Host: Change auto-call speed (seconds between calls)
+    const setCallSpeed = useCallback((speed: number): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('game:set-speed', speed, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: Schedule, move or (with null) cancel the automatic start
+    const scheduleStart = useCallback((startAt: number | null, minPlayers: number): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('game:schedule', startAt, minPlayers, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: Change room settings; once a game is under way only the live ones
+    const updateSettings = useCallback((changes: Partial<EditableRoomSettings>): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:update-settings', changes, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
             });
         });
     }, [socket]);
@@ -314,6 +645,115 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
         });
     }, [socket]);
 
+    // Host: Approve a kinh claim
+    const approveWinner = useCallback((claim: KinhClaim): Promise<{ approved: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ approved: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:approve-winner', claim, (approved: boolean, error?: SocketError) => {
+                resolve({ approved, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: Reject a kinh claim
+    const rejectWinner = useCallback((claim: KinhClaim) => {
+        socket?.emit('host:reject-winner', claim);
+    }, [socket]);
+
+    // Host: Appoint or change a co-host (no permissions removes them)
+    const setCoHost = useCallback((targetId: string, permissions: CoHostPermission[]): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:set-co-host', targetId, permissions, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: Set or remove the password, turn the approval queue on or off
+    const setRoomAccess = useCallback((access: RoomAccess): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:set-access', access, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: New invite link
+    const createInvite = useCallback((maxUses: number, expiresInMinutes: number): Promise<{ invite: RoomInvite | null; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ invite: null, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:create-invite', { maxUses, expiresInMinutes }, (invite: RoomInvite | null, error?: SocketError) => {
+                resolve({ invite, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: Let a waiting player in or turn them away
+    const answerJoinRequest = useCallback((requestId: string, admit: boolean): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:admit', requestId, admit, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: Remove a player from the room; they may join again
+    const kickPlayer = useCallback((targetId: string): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:kick', targetId, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: Remove a player and keep them (and their device) out
+    const banPlayer = useCallback((targetId: string): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:ban', targetId, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
+            });
+        });
+    }, [socket]);
+
+    // Host: Mute or unmute a player
+    const mutePlayer = useCallback((targetId: string, muted: boolean): Promise<{ ok: boolean; error?: SocketError }> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve({ ok: false, error: socketError('NOT_CONNECTED') });
+                return;
+            }
+            socket.emit('host:mute', targetId, muted, (ok: boolean, error?: SocketError) => {
+                resolve({ ok, error });
+            });
+        });
+    }, [socket]);
+
     // Player:    // Create tickets
     const createTickets = useCallback((count: number): Promise<LotoTicket[]> => {
         return new Promise((resolve) => {
@@ -321,8 +761,9 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
                 resolve([]);
                 return;
             }
-            socket.emit('player:create-tickets', count, (tickets: LotoTicket[]) => {
+            socket.emit('player:create-tickets', count, (tickets: LotoTicket[] | null, error?: SocketError) => {
                 if (!tickets) {
+                    if (error) console.error('Create tickets error:', error.message);
                     resolve([]);
                     return;
                 }
@@ -331,38 +772,66 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
         });
     }, [socket]);
 
-    // Mark Number
-    const markNumber = useCallback((ticketId: string, grid: number, row: number, index: number) => {
-        if (!socket) return;
-        socket.emit('player:mark-number', ticketId, grid, row, index);
+    // Mark Number (resolves with the reason when the server refused the mark)
+    const markNumber = useCallback((ticketId: string, grid: number, row: number, index: number): Promise<SocketError | null> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve(null);
+                return;
+            }
+            socket.emit('player:mark-number', ticketId, grid, row, index, (_marked: boolean, error?: SocketError) => {
+                resolve(error ?? null);
+            });
+        });
     }, [socket]);
 
     // Call Kinh
-    const callKinh = useCallback((ticketId: string, grid: number, row: number): Promise<ValidationResult> => {
+    const callKinh = useCallback((ticketId: string, grid?: number, row?: number): Promise<ValidationResult> => {
         return new Promise((resolve) => {
             if (!socket) {
                 resolve({ isValid: false, isWinner: false, matchedNumbers: [], missingNumbers: [] });
                 return;
             }
-            socket.emit('player:call-kinh', ticketId, grid, row, (result: ValidationResult) => {
+            socket.emit('player:call-kinh', ticketId, grid ?? null, row ?? null, (result: ValidationResult) => {
                 resolve(result);
             });
         });
     }, [socket]);
 
+    // React with an emoji (resolves with the reason when the server refused it, e.g. muted)
+    const sendReaction = useCallback((reaction: Reaction): Promise<SocketError | null> => {
+        return new Promise((resolve) => {
+            if (!socket) {
+                resolve(socketError('NOT_CONNECTED'));
+                return;
+            }
+            socket.emit('player:react', reaction, (_sent: boolean, error?: SocketError) => {
+                resolve(error ?? null);
+            });
+        });
+    }, [socket]);
+
     // Event handlers
     const onNumberCalled = useCallback((handler: (data: { number: number; folkName: string; calledNumbers: number[] }) => void) => {
         handlersRef.current.onNumberCalled = handler;
     }, []);
 
-    const onWinner = useCallback((handler: (data: { winnerId: string; nickname: string; ticketId: string; row: number }) => void) => {
+    const onWinner = useCallback((handler: (data: PrizeAward) => void) => {
         handlersRef.current.onWinner = handler;
     }, []);
 
-    const onKinhCalled = useCallback((handler: (data: { playerId: string; nickname: string; ticketId: string; row: number }) => void) => {
+    const onPrizeWon = useCallback((handler: (award: PrizeAward) => void) => {
+        handlersRef.current.onPrizeWon = handler;
+    }, []);
+
+    const onKinhCalled = useCallback((handler: (claim: KinhClaim) => void) => {
         handlersRef.current.onKinhCalled = handler;
     }, []);
 
+    const onClaimResolved = useCallback((handler: (claim: ClaimRecord) => void) => {
+        handlersRef.current.onClaimResolved = handler;
+    }, []);
+
     const onPlayerJoined = useCallback((handler: (player: Player) => void) => {
         handlersRef.current.onPlayerJoined = handler;
     }, []);
@@ -375,6 +844,22 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
         handlersRef.current.onRoomClosed = handler;
     }, []);
 
+    const onKicked = useCallback((handler: (reason: string) => void) => {
+        handlersRef.current.onKicked = handler;
+    }, []);
+
+    const onStartReminder = useCallback((handler: (startsIn: number) => void) => {
+        handlersRef.current.onStartReminder = handler;
+    }, []);
+
+    const onRejoined = useCallback((handler: (state: RejoinState) => void) => {
+        handlersRef.current.onRejoined = handler;
+    }, []);
+
+    const onJoinDenied = useCallback((handler: () => void) => {
+        handlersRef.current.onJoinDenied = handler;
+    }, []);
+
     const onAudioPlaySequence = useCallback((handler: (number: number) => void) => {
         handlersRef.current.onAudioPlaySequence = handler;
     }, []);
@@ -383,30 +868,69 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
         handlersRef.current.onGameReset = handler;
     }, []);
 
+    const onError = useCallback((handler: (error: SocketError) => void) => {
+        handlersRef.current.onError = handler;
+    }, []);
+
     return {
         socket,
         isConnected,
+        connectionError,
         room,
         calledNumbers,
         lastNumber,
+        winners,
+        drawCommitment,
+        autoCall,
+        presence,
+        playerId,
+        isSpectator: !!room && !!playerId && room.spectators.some(s => s.oderId === playerId),
+        joinRequests,
+        pendingJoin,
+        reactions,
         createRoom,
         joinRoom,
+        becomePlayer,
         leaveRoom,
+        closeRoom,
         startGame,
+        pauseGame,
+        resumeGame,
+        setCallSpeed,
+        scheduleStart,
+        updateSettings,
         spinNumber,
         resetGame,
         validateTicket,
         validateNumbers,
+        approveWinner,
+        rejectWinner,
+        setCoHost,
+        setRoomAccess,
+        createInvite,
+        answerJoinRequest,
+        kickPlayer,
+        banPlayer,
+        mutePlayer,
         createTickets,
         markNumber,
         callKinh,
+        sendReaction,
         onNumberCalled,
         onWinner,
+        onPrizeWon,
         onKinhCalled,
+        onClaimResolved,
+        onPlayerJoined,
         onPlayerLeft,
         onRoomClosed,
+        onKicked,
+        onJoinDenied,
         onAudioPlaySequence,
         onGameReset,
+        onStartReminder,
+        onRejoined,
+        onError,
         restoreSession,
         clearSession,
     };
@@ -3,6 +3,7 @@
 
 import { Howl, Howler } from 'howler';
 import { AUDIO_METADATA } from './audio-metadata';
+import { MAX_GAME_NUMBER } from './game-formats';
 
 export interface AudioManagerConfig {
     basePath: string;
@@ -119,7 +120,7 @@ class AudioManager {
         const promises: Promise<void>[] = [];
         let loaded = 0;
 
-        for (let i = 1; i <= 99; i++) {
+        for (let i = 1; i <= MAX_GAME_NUMBER; i++) {
             const paddedNum = i.toString().padStart(2, '0');
             const url = `${this.config.essentialPath}/${paddedNum}.m4a`;
 
@@ -131,13 +132,13 @@ class AudioManager {
                         volume: this.effectsVolume,
                         onload: () => {
                             loaded++;
-                            this.updateProgress('essential', Math.round((loaded / 99) * 100));
+                            this.updateProgress('essential', Math.round((loaded / MAX_GAME_NUMBER) * 100));
                             resolve();
                         },
                         onloaderror: () => {
                             // Continue even if file missing
                             loaded++;
-                            this.updateProgress('essential', Math.round((loaded / 99) * 100));
+                            this.updateProgress('essential', Math.round((loaded / MAX_GAME_NUMBER) * 100));
                             resolve();
                         },
                     });
@@ -208,10 +209,10 @@ class AudioManager {
      */
     async loadVariantsInBackground(): Promise<void> {
         const variantsPerNumber = 5;
-        const total = 99 * variantsPerNumber;
+        const total = MAX_GAME_NUMBER * variantsPerNumber;
         let loaded = 0;
 
-        for (let num = 1; num <= 99; num++) {
+        for (let num = 1; num <= MAX_GAME_NUMBER; num++) {
             const paddedNum = num.toString().padStart(2, '0');
 
             for (let v = 1; v <= variantsPerNumber; v++) {
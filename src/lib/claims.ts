@@ -0,0 +1,51 @@
+// Kinh claims: the dispute log of a game session and what false claims cost
+
+import type { ClaimPenalty, ClaimRecord, ClaimStatus, FalseClaimPenalty } from './game-types';
+
+export const DEFAULT_FALSE_CLAIM_PENALTY: FalseClaimPenalty = { cooldown: true, forfeitAfter: 0, kickAfter: 0 };
+
+type LoggedClaim = { oderId: string; status: ClaimStatus };
+
+/**
+ * Claims still waiting for the host; auto-call stays paused while there are any
+ */
+export function getPendingClaims<T extends { status: ClaimStatus }>(claims: T[] | undefined): T[] {
+    return (claims ?? []).filter(c => c.status === 'pending');
+}
+
+/**
+ * False claims a player made this game
+ */
+export function countStrikes(claims: LoggedClaim[] | undefined, oderId: string): number {
+    return (claims ?? []).filter(c => c.oderId === oderId && (c.status === 'invalid' || c.status === 'rejected')).length;
+}
+
+/**
+ * The harshest penalty a player earns at this many strikes, if any
+ */
+export function choosePenalty(policy: FalseClaimPenalty | undefined, strikes: number): ClaimPenalty | undefined {
+    const { cooldown, forfeitAfter, kickAfter } = policy ?? DEFAULT_FALSE_CLAIM_PENALTY;
+    if (kickAfter > 0 && strikes >= kickAfter) return 'kick';
+    if (forfeitAfter > 0 && strikes >= forfeitAfter) return 'forfeit';
+    return cooldown ? 'cooldown' : undefined;
+}
+
+/**
+ * What happened to a claim, told to the player who made it
+ */
+export function describeClaimOutcome(claim: Pick<ClaimRecord, 'status' | 'penalty'>): string {
+    const outcome = {
+        pending: 'Đang chờ chủ phòng kiểm tra vé',
+        approved: 'Kinh hợp lệ!',
+        rejected: 'Chủ phòng đã từ chối lượt kinh của bạn',
+        invalid: 'Vé chưa đủ số, kinh không hợp lệ',
+        expired: 'Giải đã có người nhận trước lượt kinh của bạn',
+    }[claim.status];
+
+    switch (claim.penalty) {
+        case 'forfeit': return `${outcome}. Vé này bị loại khỏi ván chơi`;
+        case 'kick': return `${outcome}. Bạn bị mời ra khỏi phòng`;
+        case 'cooldown': return `${outcome}. Bạn phải chờ một lúc mới được kinh lại`;
+        default: return outcome;
+    }
+}
@@ -0,0 +1,112 @@
+// Structured errors returned to socket clients
+// `code` is stable for clients to branch on, `message` is shown to the player
+
+export type ErrorCode =
+    | 'PROTOCOL_MISMATCH'   // client built for another protocol version, see socket-events
+    | 'INVALID_PAYLOAD'     // arguments failed the event's schema
+    | 'NOT_CONNECTED'       // client side: no socket yet
+    | 'NOT_AUTHENTICATED'   // no room joined, or the session token expired / was revoked
+    | 'FORBIDDEN'           // not the host, or a co-host without the permission
+    | 'ROOM_NOT_FOUND'
+    | 'ROOM_CLOSED'
+    | 'ROOM_FULL'
+    | 'BANNED'
+    | 'PASSWORD_REQUIRED'
+    | 'WRONG_PASSWORD'
+    | 'INVITE_INVALID'      // unknown, expired or used up
+    | 'AWAITING_APPROVAL'   // the join was queued for the host, see room:admitted
+    | 'JOIN_REQUEST_NOT_FOUND'
+    | 'PLAYER_NOT_FOUND'
+    | 'TICKET_NOT_FOUND'
+    | 'WRONG_ROOM'          // the ticket belongs to another room
+    | 'NOT_TICKET_OWNER'
+    | 'SPECTATOR'           // spectators watch read-only, see room:become-player
+    | 'GAME_NOT_STARTED'
+    | 'GAME_ENDED'
+    | 'GAME_IN_PROGRESS'
+    | 'INVALID_CELL'
+    | 'GAME_PAUSED'
+    | 'NO_NUMBERS_LEFT'
+    | 'NOT_A_WINNER'        // an approved claim does not complete the prize pattern
+    | 'PRIZE_TAKEN'
+    | 'CLAIM_PENDING'       // a kinh claim is waiting for the host
+    | 'TICKET_FORFEITED'    // lost to a false-claim penalty
+    | 'RATE_LIMITED'        // too many events, see retryAfter
+    | 'KINH_COOLDOWN'       // a recent false kinh, see retryAfter
+    | 'MUTED'               // the host took away reactions, see host:mute
+    | 'INTERNAL';
+
+export interface SocketError {
+    code: ErrorCode;
+    message: string;
+    retryAfter?: number; // ms until the action is allowed again
+}
+
+export const ERROR_MESSAGES: Record<ErrorCode, string> = {
+    PROTOCOL_MISMATCH: 'Ứng dụng đã có phiên bản mới, vui lòng tải lại trang',
+    INVALID_PAYLOAD: 'Dữ liệu gửi lên không hợp lệ',
+    NOT_CONNECTED: 'Chưa kết nối',
+    NOT_AUTHENTICATED: 'Phiên đã hết hạn, vui lòng vào lại phòng',
+    FORBIDDEN: 'Bạn không có quyền làm việc này',
+    ROOM_NOT_FOUND: 'Phòng không tồn tại',
+    ROOM_CLOSED: 'Phòng đã kết thúc',
+    ROOM_FULL: 'Phòng đã đầy',
+    BANNED: 'Bạn đã bị cấm vào phòng này',
+    PASSWORD_REQUIRED: 'Phòng này cần mật khẩu',
+    WRONG_PASSWORD: 'Sai mật khẩu phòng',
+    INVITE_INVALID: 'Link mời đã hết hạn hoặc hết lượt dùng',
+    AWAITING_APPROVAL: 'Đang chờ chủ phòng cho vào',
+    JOIN_REQUEST_NOT_FOUND: 'Người này không còn chờ vào phòng',
+    PLAYER_NOT_FOUND: 'Không tìm thấy người chơi trong phòng',
+    TICKET_NOT_FOUND: 'Không tìm thấy vé',
+    WRONG_ROOM: 'Vé không thuộc phòng này',
+    NOT_TICKET_OWNER: 'Vé này không phải của bạn',
+    SPECTATOR: 'Bạn đang xem với tư cách khán giả, hãy vào chơi để lấy vé',
+    GAME_NOT_STARTED: 'Trò chơi chưa bắt đầu',
+    GAME_ENDED: 'Ván chơi đã kết thúc',
+    GAME_IN_PROGRESS: 'Ván chơi đang diễn ra',
+    INVALID_CELL: 'Ô số không hợp lệ',
+    GAME_PAUSED: 'Trò chơi đang tạm dừng',
+    NO_NUMBERS_LEFT: 'Đã hết số',
+    NOT_A_WINNER: 'Vé chưa đủ điều kiện thắng',
+    PRIZE_TAKEN: 'Giải này đã có người nhận',
+    CLAIM_PENDING: 'Đang chờ chủ phòng kiểm tra lượt kinh',
+    TICKET_FORFEITED: 'Vé này đã bị loại khỏi ván chơi',
+    RATE_LIMITED: 'Bạn thao tác quá nhanh, vui lòng chờ một chút',
+    KINH_COOLDOWN: 'Bạn vừa kinh sai, vui lòng chờ trước khi kinh lại',
+    MUTED: 'Bạn đã bị chủ phòng tắt tiếng',
+    INTERNAL: 'Có lỗi xảy ra, vui lòng thử lại',
+};
+
+export function socketError(code: ErrorCode, message: string = ERROR_MESSAGES[code]): SocketError {
+    return { code, message };
+}
+
+/**
+ * An action refused until later; the message tells the player how long to wait
+ */
+export function retryError(code: 'RATE_LIMITED' | 'KINH_COOLDOWN', retryAfter: number): SocketError {
+    const seconds = Math.ceil(retryAfter / 1000);
+    return { code, message: `${ERROR_MESSAGES[code]} (${seconds} giây)`, retryAfter };
+}
+
+/**
+ * Thrown by services for failures the client should see with their own code
+ */
+export class GameError extends Error {
+    constructor(public readonly code: ErrorCode, message: string = ERROR_MESSAGES[code]) {
+        super(message);
+        this.name = 'GameError';
+    }
+}
+
+/**
+ * The structured error for anything a handler caught; unexpected errors become INTERNAL
+ */
+export function toSocketError(err: unknown): SocketError {
+    return err instanceof GameError ? socketError(err.code, err.message) : socketError('INTERNAL');
+}
+
+export function isSocketError(value: unknown): value is SocketError {
+    return typeof value === 'object' && value !== null && 'code' in value && 'message' in value;
+}
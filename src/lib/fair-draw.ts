@@ -0,0 +1,85 @@
+// Provably Fair Draw for Lô Tô
+// When a game starts the server commits to sha256(seed); the whole draw order is a
+// shuffle of the number pool driven by the seed, which is revealed when the game ends
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { getNumberPool, type GameFormat } from './game-formats';
+
+export interface DrawVerification {
+    commitmentValid: boolean;  // sha256(seed) equals the hash published at game start
+    sequenceValid: boolean;    // every called number matches the seeded draw order
+    firstMismatch: number | null; // index of the first call that differs
+    expected: number[];        // draw order for as many calls as were made
+}
+
+export function createSeed(): string {
+    return randomBytes(32).toString('hex');
+}
+
+export function hashSeed(seed: string): string {
+    return createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * Uniform integers in [0, max) from HMAC-SHA256(seed, counter) blocks
+ */
+function seededRandom(seed: string): (max: number) => number {
+    let counter = 0;
+    let block = Buffer.alloc(0);
+    let offset = 0;
+
+    const nextUint32 = (): number => {
+        if (offset + 4 > block.length) {
+            block = createHmac('sha256', seed).update(String(counter++)).digest();
+            offset = 0;
+        }
+        const value = block.readUInt32BE(offset);
+        offset += 4;
+        return value;
+    };
+
+    return (max: number) => {
+        // Rejection sampling so no index is favoured by the modulo
+        const limit = Math.floor(0x100000000 / max) * max;
+        let value: number;
+        do {
+            value = nextUint32();
+        } while (value >= limit);
+        return value % max;
+    };
+}
+
+/**
+ * Full draw order for a seed (Fisher-Yates over the format's pool)
+ */
+export function getDrawOrder(seed: string, format: GameFormat): number[] {
+    const pool = getNumberPool(format);
+    const randomIndex = seededRandom(seed);
+
+    for (let i = pool.length - 1; i > 0; i--) {
+        const j = randomIndex(i + 1);
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+
+    return pool;
+}
+
+/**
+ * Recompute the draw from a revealed seed and compare it with what was called
+ */
+export function verifyDraw(
+    seed: string,
+    seedHash: string,
+    calledNumbers: number[],
+    format: GameFormat
+): DrawVerification {
+    const expected = getDrawOrder(seed, format).slice(0, calledNumbers.length);
+    const mismatch = calledNumbers.findIndex((n, i) => n !== expected[i]);
+
+    return {
+        commitmentValid: hashSeed(seed) === seedHash,
+        sequenceValid: mismatch === -1 && calledNumbers.length <= expected.length,
+        firstMismatch: mismatch === -1 ? null : mismatch,
+        expected,
+    };
+}
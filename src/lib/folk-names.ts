@@ -1,4 +1,4 @@
-// Tên gọi dân gian cho 99 số Lô Tô
+// Tên gọi dân gian cho 99 số Lô Tô (đủ cho mọi bộ số, xem game-formats)
 // Vietnamese folk names for Loto numbers
 
 export const folkNames: Record<number, string> = {
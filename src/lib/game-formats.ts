@@ -0,0 +1,48 @@
+// Game Formats for Lô Tô
+// A format fixes the number pool and the ticket column ranges; the draw,
+// ticket generator, boards and stats all read the room's format from here
+
+import type { GameFormatId } from './game-types';
+
+export interface GameFormat {
+    id: GameFormatId;
+    label: string;
+    maxNumber: number;
+    columns: [number, number][]; // inclusive [min, max] for each of the 9 ticket columns
+}
+
+const LOWER_COLUMNS: [number, number][] = [
+    [1, 9], [10, 19], [20, 29], [30, 39], [40, 49],
+    [50, 59], [60, 69], [70, 79],
+];
+
+export const GAME_FORMATS: Record<GameFormatId, GameFormat> = {
+    '1-90': { id: '1-90', label: '90 số (chuẩn)', maxNumber: 90, columns: [...LOWER_COLUMNS, [80, 90]] },
+    '1-89': { id: '1-89', label: '89 số', maxNumber: 89, columns: [...LOWER_COLUMNS, [80, 89]] },
+    '1-99': { id: '1-99', label: '99 số (miền Nam)', maxNumber: 99, columns: [...LOWER_COLUMNS, [80, 99]] },
+};
+
+export const DEFAULT_GAME_FORMAT: GameFormatId = '1-90';
+
+/**
+ * Largest number any format can draw, e.g. for preloading audio
+ */
+export const MAX_GAME_NUMBER = Math.max(...Object.values(GAME_FORMATS).map(f => f.maxNumber));
+
+/**
+ * Format for a room. Rooms created before formats existed play the standard 90-ball game.
+ */
+export function getGameFormat(id?: GameFormatId): GameFormat {
+    return (id && GAME_FORMATS[id]) || GAME_FORMATS[DEFAULT_GAME_FORMAT];
+}
+
+/**
+ * Every number that can be drawn in this format, in order
+ */
+export function getNumberPool(format: GameFormat): number[] {
+    return Array.from({ length: format.maxNumber }, (_, i) => i + 1);
+}
+
+export function isInFormat(format: GameFormat, num: number): boolean {
+    return Number.isInteger(num) && num >= 1 && num <= format.maxNumber;
+}
@@ -1,11 +1,13 @@
 // Game Types for Lô Tô Virtual Show
 
+import type { SocketError } from './errors';
+
 export interface CalledNumber {
   number: number;
   calledAt: Date;
 }
 
-// 9 columns: 1-9, 10-19, ..., 80-90
+// 9 columns: 1-9, 10-19, ..., 80-max (the last column depends on the game format)
 export interface TicketRow {
   cells: (number | null)[]; // 9 cells, null if empty
   marked: boolean[];        // 9 booleans (true if cell has number AND is marked)
@@ -26,11 +28,13 @@ export interface LotoTicket {
 export interface Player {
   oderId: string;
   nickname: string;
-  socketId?: string;
-  tickets: string[]; // ticket IDs
+  isHost: boolean;
   joinedAt: Date;
 }
 
+// online: connected and looking; away: tab hidden or just dropped (grace period); offline: gone
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
 export interface GameSession {
   id: string;
   roomId: string;
@@ -40,20 +44,31 @@ export interface GameSession {
   winnerId?: string;
   winningTicketId?: string;
   winningRow?: number;
+  winners?: WinnerInfo[];
 }
 
 export interface Room {
   id: string;
   code: string; // 6-character room code
   hostId: string;
-  hostSocketId?: string;
+  coHosts: CoHost[];
+  muted: string[]; // player ids who may not send reactions
+  hasPassword: boolean; // joining without an invite needs the room password
   players: Player[];
-  currentSession?: GameSession;
+  spectators: Player[]; // watching read-only; not counted against maxPlayers
   status: 'waiting' | 'playing' | 'finished';
   createdAt: Date;
   settings: RoomSettings;
 }
 
+// What a co-host may do on the host's behalf; the host may do everything
+export type CoHostPermission = 'spin' | 'validate' | 'kick';
+
+export interface CoHost {
+  oderId: string;
+  permissions: CoHostPermission[];
+}
+
 export interface RoomSettings {
   maxPlayers: number;
   ticketsPerPlayer: number;
@@ -63,37 +78,170 @@ export interface RoomSettings {
   checkMode: 'manual' | 'auto'; // Added
   autoMarkNumbers: boolean;
   audioMode: 'singing' | 'calling';
+  winPattern: WinPattern;
+  prizes?: Prize[]; // prize ladder, empty for a single prize using winPattern
+  tieMode: TieMode;
+  gameFormat: GameFormatId;
+  falseClaimPenalty: FalseClaimPenalty;
+  requireApproval: boolean; // joins without an invite wait for the host to admit them
+  visibility: RoomVisibility;
+  scheduledStart: number | null; // epoch ms the game starts by itself, null to start by hand
+  minPlayers: number;            // players besides the host a scheduled start waits for, 0 for none
+}
+
+// Public rooms are listed in the lobby; private ones are found by code only
+export type RoomVisibility = 'public' | 'private';
+
+// A public room as listed in the lobby
+export interface LobbyRoom {
+  code: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  spectatorCount: number;
+  status: 'waiting' | 'playing' | 'finished';
+  audioMode: 'singing' | 'calling';
+  gameFormat: GameFormatId;
+  hasPassword: boolean;
+  requireApproval: boolean;
+  createdAt: Date;
+  startedAt: Date | null; // current game, null between games
+  scheduledStart: number | null; // epoch ms of the next game's automatic start
+}
+
+// Auto-call schedule as shown to clients; nextCallIn is ms from when it was sent
+export interface AutoCallStatus {
+  state: 'running' | 'paused' | 'stopped';
+  speed: number;
+  nextCallIn: number | null;
+}
+
+// Commit-reveal of a session's draw seed, see lib/fair-draw
+export interface DrawCommitment {
+  sessionId: string;
+  seedHash: string;
+  seed?: string; // revealed once the session ends
+}
+
+// Number pool of a room, see lib/game-formats
+export type GameFormatId = '1-90' | '1-89' | '1-99';
+
+// How a prize is settled when several tickets complete it on the same call
+export type TieMode = 'split' | 'tiebreak';
+
+// What a kinh call that does not win costs the player. Strikes are counted per game;
+// forfeit and kick apply once a player reaches that many (0 = never).
+export interface FalseClaimPenalty {
+  cooldown: boolean;    // escalating wait before the next kinh
+  forfeitAfter: number; // the claimed ticket can no longer win this game
+  kickAfter: number;    // the player is removed from the room
+}
+
+export type ClaimPenalty = 'cooldown' | 'forfeit' | 'kick';
+
+// pending: waiting for the host; invalid: the server found no win;
+// expired: the prize was settled or the game ended before the claim was decided
+export type ClaimStatus = 'pending' | 'approved' | 'rejected' | 'invalid' | 'expired';
+
+// A kinh claim as logged on the game session
+export interface ClaimRecord {
+  claimId: string;
+  playerId: string;
+  nickname: string;
+  ticketId: string;
+  prizeId: string;
+  grid?: number;
+  row?: number;
+  atCall: number;        // numbers called when the claim was made
+  status: ClaimStatus;
+  penalty?: ClaimPenalty;
+  claimedAt: Date;
+  resolvedAt?: Date;
+  resolvedBy?: string;   // player id of the host or co-host, 'auto' for the server
+}
+
+// A player waiting for the host to let them in
+export interface JoinRequest {
+  requestId: string;
+  nickname: string;
+  spectator: boolean; // asked to watch rather than play
+  requestedAt: Date;
 }
 
-// Socket Events
-export type ServerToClientEvents = {
-  'room:updated': (room: Room) => void;
-  'game:number-called': (data: { number: number; folkName: string; calledNumbers: number[] }) => void;
-  'game:winner': (data: { winnerId: string; nickname: string; ticketId: string; row: number }) => void;
-  'player:joined': (player: Player) => void;
-  'player:left': (playerId: string) => void;
-  'player:kinh-called': (data: { playerId: string; nickname: string; ticketId: string; row: number }) => void;
-  'error': (message: string) => void;
-};
-
-export type ClientToServerEvents = {
-  'room:create': (hostNickname: string, settings: Partial<RoomSettings>, callback: (room: Room) => void) => void;
-  'room:join': (code: string, nickname: string, callback: (room: Room | null, error?: string) => void) => void;
-  'room:leave': () => void;
-  'game:spin': () => void;
-  'game:reset': () => void;
-  'player:create-ticket': (count: number, callback: (tickets: LotoTicket[]) => void) => void;
-  'player:mark-number': (ticketId: string, row: number, index: number) => void;
-  'player:call-kinh': (ticketId: string, row: number) => void;
-  'host:validate-ticket': (ticketId: string, callback: (result: ValidationResult) => void) => void;
-  'host:validate-numbers': (numbers: number[], callback: (result: ValidationResult) => void) => void;
-};
+// A link that lets players in without the password or approval
+export interface RoomInvite {
+  token: string;
+  maxUses: number;
+  uses: number;
+  expiresAt: Date;
+}
+
+export interface Prize {
+  id: string;
+  name: string;
+  pattern: WinPattern;
+}
+
+// Win Patterns
+export type WinPatternType =
+  | 'one-row'       // all 5 numbers of one row
+  | 'two-rows'      // two full rows in the same grid
+  | 'full-grid'     // all 15 numbers of one grid (full house)
+  | 'four-corners'  // first and last number of the top and bottom rows
+  | 'first-five'    // any 5 numbers anywhere on the ticket
+  | 'custom';       // cells selected by a 3x9 mask
+
+export interface WinPattern {
+  type: WinPatternType;
+  mask?: boolean[][]; // 3 rows x 9 columns, only for 'custom'
+}
+
+// Socket events are defined in socket-events.ts
 
 export interface ValidationResult {
   isValid: boolean;
   isWinner: boolean;
   matchedNumbers: number[];
   missingNumbers: number[];
+  // Populated when a stored ticket was checked, so the host can adjudicate the claim
+  ticketId?: string;
+  ownerId?: string;
+  nickname?: string;
+  grid?: number;
+  row?: number;
+  pattern?: WinPatternType;
+  requiredCount?: number; // how many numbers the pattern needs called
+  error?: SocketError;    // the claim was refused before it could be checked
+}
+
+export interface WinnerInfo {
+  winnerId: string;
+  nickname: string;
+  ticketId: string;
+  prizeId: string;
+  prizeName: string;
+  pattern: WinPatternType;
+  grid?: number; // unset for ticket-wide patterns
+  row?: number;  // only set for single-row patterns
+  share?: number; // fraction of the prize when it is split, e.g. 0.5
+}
+
+export interface TieEntry extends WinnerInfo {
+  draw?: number; // tie-breaker draw, highest wins
+}
+
+export interface TieResolution {
+  mode: TieMode;
+  number: number; // the call every co-winner completed on
+  coWinners: TieEntry[];
+}
+
+// A prize settled on one call: a single winner, split winners, or a tie-breaker result
+export interface PrizeAward {
+  prizeId: string;
+  prizeName: string;
+  winners: WinnerInfo[];
+  tie?: TieResolution;
 }
 
 // Audio Types
@@ -0,0 +1,33 @@
+// Public lobby: filtering the listed rooms on the client
+
+import type { LobbyRoom } from './game-types';
+
+export interface LobbyFilters {
+    search: string; // host name or room code
+    status: 'all' | 'waiting' | 'playing';
+    audioMode: 'all' | 'singing' | 'calling';
+    hasSeats: boolean;  // hide full rooms
+    openOnly: boolean;  // hide rooms with a password or approval queue
+}
+
+export const DEFAULT_LOBBY_FILTERS: LobbyFilters = {
+    search: '',
+    status: 'all',
+    audioMode: 'all',
+    hasSeats: true,
+    openOnly: false,
+};
+
+/**
+ * Listed rooms matching every filter, in listing order
+ */
+export function filterLobbyRooms(rooms: LobbyRoom[], filters: LobbyFilters): LobbyRoom[] {
+    const search = filters.search.trim().toLowerCase();
+    return rooms.filter(room =>
+        (!search || room.hostName.toLowerCase().includes(search) || room.code.toLowerCase().includes(search)) &&
+        (filters.status === 'all' || room.status === filters.status) &&
+        (filters.audioMode === 'all' || room.audioMode === filters.audioMode) &&
+        (!filters.hasSeats || room.playerCount < room.maxPlayers) &&
+        (!filters.openOnly || (!room.hasPassword && !room.requireApproval))
+    );
+}
@@ -1,18 +1,15 @@
 // Number Generator and Game Logic for Lô Tô
 
 import { v4 as uuidv4 } from 'uuid';
-import type { LotoTicket, TicketRow, TicketGrid, ValidationResult, CalledNumber } from './game-types';
+import type { LotoTicket, TicketRow, TicketGrid, ValidationResult, CalledNumber, WinPattern } from './game-types';
+import { DEFAULT_WIN_PATTERN, evaluatePattern, type PatternTicket } from './win-patterns';
+import { getGameFormat, getNumberPool, type GameFormat } from './game-formats';
 
 /**
- * Generate a random number between 1-90 that hasn't been called yet
+ * Generate a random number from the format's pool that hasn't been called yet
  */
-export function generateNextNumber(calledNumbers: number[]): number | null {
-    const available = [];
-    for (let i = 1; i <= 89; i++) {
-        if (!calledNumbers.includes(i)) {
-            available.push(i);
-        }
-    }
+export function generateNextNumber(calledNumbers: number[], format: GameFormat = getGameFormat()): number | null {
+    const available = getNumberPool(format).filter(n => !calledNumbers.includes(n));
 
     if (available.length === 0) {
         return null; // All numbers called
@@ -27,9 +24,9 @@ export function generateNextNumber(calledNumbers: number[]): number | null {
  * - 15 numbers total
  * - 5 numbers per row
  * - Each column must have 1-3 numbers
- * - Cols: 1-9, 10-19... 80-90
+ * - Cols: 1-9, 10-19... 80-max, taken from the game format
  */
-function generateGrid(roomId: string): TicketGrid {
+function generateGrid(format: GameFormat): TicketGrid {
     // 1. Determine counts per column (sum = 15, min 1, max 3)
     const colCounts = new Array(9).fill(1); // Start with 1 per col (9 total)
     let remaining = 6;
@@ -48,10 +45,7 @@ function generateGrid(roomId: string): TicketGrid {
 
     // 2. Generate numbers for each column
     const gridNumbers: number[][] = []; // 9 columns
-    const colRanges = [
-        [1, 9], [10, 19], [20, 29], [30, 39], [40, 49],
-        [50, 59], [60, 69], [70, 79], [80, 89] // Last col 80-89
-    ];
+    const colRanges = format.columns;
 
     for (let c = 0; c < 9; c++) {
         const count = colCounts[c];
@@ -134,14 +128,14 @@ function generateGrid(roomId: string): TicketGrid {
     // For robustness, returning a fallback or retrying the whole function is better.
     // Given the constraints, it rarely fails hard if colCounts are reasonable.
     // Just retry recursively once?
-    return generateGrid(roomId);
+    return generateGrid(format);
 }
 
 /**
  * Generate a valid Lô Tô ticket (3 Grids)
  * Numbers should be unique across the ticket? (45 unique numbers)
  */
-export function generateTicket(roomId: string, ownerId: string): LotoTicket {
+export function generateTicket(roomId: string, ownerId: string, format: GameFormat = getGameFormat()): LotoTicket {
     // Generate 3 grids with unique numbers across them using global exclusion?
     // User requested "Tấm vé... bao gồm 3 bảng... số không trùng lặp (tổng 45 số)".
 
@@ -161,7 +155,7 @@ export function generateTicket(roomId: string, ownerId: string): LotoTicket {
         // Copy-paste logic but add 'usedNumbers' check in number generation step (2)
 
         // Inline the logic for iteration
-        const grid = generateUniqueGrid(usedNumbers);
+        const grid = generateUniqueGrid(usedNumbers, format);
         if (grid) {
             grids.push(grid);
             // Add to used
@@ -182,7 +176,7 @@ export function generateTicket(roomId: string, ownerId: string): LotoTicket {
     };
 }
 
-function generateUniqueGrid(exclude: Set<number>): TicketGrid | null {
+function generateUniqueGrid(exclude: Set<number>, format: GameFormat): TicketGrid | null {
     // 1. Determine counts (Same as before)
     const colCounts = new Array(9).fill(1);
     let remaining = 6;
@@ -196,10 +190,7 @@ function generateUniqueGrid(exclude: Set<number>): TicketGrid | null {
 
     // 2. Generate numbers (Filtering excluded)
     const gridNumbers: number[][] = [];
-    const colRanges = [
-        [1, 9], [10, 19], [20, 29], [30, 39], [40, 49],
-        [50, 59], [60, 69], [70, 79], [80, 89]
-    ];
+    const colRanges = format.columns;
 
     for (let c = 0; c < 9; c++) {
         const count = colCounts[c];
@@ -264,11 +255,12 @@ function generateUniqueGrid(exclude: Set<number>): TicketGrid | null {
 export function generateTickets(
     roomId: string,
     ownerId: string,
-    count: number
+    count: number,
+    format: GameFormat = getGameFormat()
 ): LotoTicket[] {
     const tickets: LotoTicket[] = [];
     for (let i = 0; i < count; i++) {
-        tickets.push(generateTicket(roomId, ownerId));
+        tickets.push(generateTicket(roomId, ownerId, format));
     }
     return tickets;
 }
@@ -286,21 +278,19 @@ export function checkRowWinner(
 }
 
 /**
- * Check if a ticket has any winning row (in any grid)
+ * Check if a ticket satisfies the win pattern (a full row by default)
  */
 export function checkTicketWinner(
-    ticket: LotoTicket,
-    calledNumbers: number[]
+    ticket: PatternTicket,
+    calledNumbers: number[],
+    pattern: WinPattern = DEFAULT_WIN_PATTERN
 ): { isWinner: boolean; winningGrid: number | null; winningRow: number | null } {
-    for (let g = 0; g < ticket.grids.length; g++) {
-        const grid = ticket.grids[g];
-        for (let r = 0; r < 3; r++) {
-            if (checkRowWinner(grid.rows[r], calledNumbers)) {
-                return { isWinner: true, winningGrid: g, winningRow: r };
-            }
-        }
-    }
-    return { isWinner: false, winningGrid: null, winningRow: null };
+    const result = evaluatePattern(ticket, calledNumbers, pattern);
+    return {
+        isWinner: result.isWinner,
+        winningGrid: result.isWinner ? result.grid ?? null : null,
+        winningRow: result.isWinner ? result.row ?? null : null,
+    };
 }
 
 /**
@@ -322,40 +312,17 @@ export function validateNumbers(
 }
 
 /**
- * Validate a ticket by ID
+ * Validate a ticket against the room's win pattern,
+ * optionally restricted to the grid/row the player claimed
  */
 export function validateTicket(
-    ticket: LotoTicket,
+    ticket: PatternTicket,
     calledNumbers: number[],
-    claimedGrid?: number, // Updated
-    claimedRow?: number
+    claimedGrid?: number,
+    claimedRow?: number,
+    pattern: WinPattern = DEFAULT_WIN_PATTERN
 ): ValidationResult {
-    if (claimedGrid !== undefined && claimedRow !== undefined) {
-        if (claimedGrid >= 0 && claimedGrid < ticket.grids.length &&
-            claimedRow >= 0 && claimedRow < 3) {
-            const row = ticket.grids[claimedGrid].rows[claimedRow];
-            const nums = row.cells.filter((n): n is number => n !== null);
-            return validateNumbers(nums, calledNumbers);
-        }
-    }
-
-    // Check all rows in all grids
-    for (const grid of ticket.grids) {
-        for (const row of grid.rows) {
-            const nums = row.cells.filter((n): n is number => n !== null);
-            const result = validateNumbers(nums, calledNumbers);
-            if (result.isWinner) {
-                return result;
-            }
-        }
-    }
-
-    return {
-        isValid: true,
-        isWinner: false,
-        matchedNumbers: [],
-        missingNumbers: [],
-    };
+    return evaluatePattern(ticket, calledNumbers, pattern, { grid: claimedGrid, row: claimedRow });
 }
 
 /**
@@ -396,7 +363,7 @@ export function autoMarkNumber(
 /**
  * Get statistics for a game session
  */
-export function getGameStats(calledNumbers: CalledNumber[]): {
+export function getGameStats(calledNumbers: CalledNumber[], format: GameFormat = getGameFormat()): {
     totalCalled: number;
     remaining: number;
     lastNumber: number | null;
@@ -404,10 +371,10 @@ export function getGameStats(calledNumbers: CalledNumber[]): {
 } {
     return {
         totalCalled: calledNumbers.length,
-        remaining: 89 - calledNumbers.length,
+        remaining: format.maxNumber - calledNumbers.length,
         lastNumber: calledNumbers.length > 0
             ? calledNumbers[calledNumbers.length - 1].number
             : null,
-        percentComplete: Math.round((calledNumbers.length / 89) * 100),
+        percentComplete: Math.round((calledNumbers.length / format.maxNumber) * 100),
     };
 }
@@ -0,0 +1,51 @@
+// Prize Ladder for multi-prize rounds
+// Prizes are awarded in order; the draw continues until the last one is claimed
+
+import type { Prize, PrizeAward, RoomSettings, WinnerInfo } from './game-types';
+import { DEFAULT_WIN_PATTERN, WIN_PATTERN_LABELS } from './win-patterns';
+
+export const DEFAULT_PRIZE_LADDER: Prize[] = [
+    { id: 'first-row', name: 'Giải Nhất Hàng', pattern: { type: 'one-row' } },
+    { id: 'two-rows', name: 'Giải Hai Hàng', pattern: { type: 'two-rows' } },
+    { id: 'full-grid', name: 'Giải Kín Bảng', pattern: { type: 'full-grid' } },
+];
+
+/**
+ * Prizes for a room. Rooms without a ladder play for a single prize
+ * using their win pattern.
+ */
+export function getPrizeLadder(settings: Pick<RoomSettings, 'winPattern' | 'prizes'>): Prize[] {
+    if (settings.prizes && settings.prizes.length > 0) return settings.prizes;
+
+    const pattern = settings.winPattern ?? DEFAULT_WIN_PATTERN;
+    return [{ id: 'main', name: WIN_PATTERN_LABELS[pattern.type], pattern }];
+}
+
+/**
+ * The first prize in the ladder that has not been awarded yet
+ */
+export function getCurrentPrize(ladder: Prize[], winners: Pick<WinnerInfo, 'prizeId'>[]): Prize | null {
+    return ladder.find(prize => !winners.some(w => w.prizeId === prize.id)) ?? null;
+}
+
+/**
+ * Whether awarding `prize` closes the ladder
+ */
+export function isFinalPrize(ladder: Prize[], winners: Pick<WinnerInfo, 'prizeId'>[], prize: Prize): boolean {
+    return ladder.every(p => p.id === prize.id || winners.some(w => w.prizeId === p.id));
+}
+
+/**
+ * How a tied prize was settled, e.g. "Chia đều cho 2 người trùng số 42"
+ */
+export function describeTie(award: PrizeAward): string | null {
+    if (!award.tie) return null;
+
+    const { mode, number, coWinners } = award.tie;
+    if (mode === 'split') {
+        return `Chia đều cho ${coWinners.length} người trùng số ${number}`;
+    }
+
+    const draws = coWinners.map(entry => `${entry.nickname}: ${entry.draw}`).join(', ');
+    return `Bốc thăm giữa ${coWinners.length} người trùng số ${number} (${draws})`;
+}
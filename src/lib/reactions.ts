@@ -0,0 +1,15 @@
+// Emoji reactions a room's players send to everyone in it.
+// Spectators watch read-only and muted players (host:mute) cannot send them.
+
+export const REACTIONS = ['👏', '🎉', '😂', '😮', '😭', '🔥'] as const;
+
+export type Reaction = (typeof REACTIONS)[number];
+
+// How long a reaction stays on screen
+export const REACTION_SHOW_MS = 4000;
+
+export interface RoomReaction {
+    playerId: string;
+    nickname: string;
+    reaction: Reaction;
+}
@@ -0,0 +1,59 @@
+// Room roles: the host, co-hosts acting with a subset of the host's powers, and players
+
+import type { CoHostPermission, Room } from './game-types';
+
+export type RoomRole = 'host' | 'co-host' | 'player';
+
+export const CO_HOST_PERMISSIONS: CoHostPermission[] = ['spin', 'validate', 'kick'];
+
+export const CO_HOST_PERMISSION_LABELS: Record<CoHostPermission, string> = {
+    spin: 'Quay số',
+    validate: 'Duyệt vé',
+    kick: 'Mời ra',
+};
+
+type RoomRoles = Pick<Room, 'hostId' | 'coHosts'>;
+type RoomBans = { bans?: { oderId: string; deviceId?: string }[] };
+
+export function getRole(room: RoomRoles, oderId: string | null | undefined): RoomRole {
+    if (!oderId) return 'player';
+    if (room.hostId === oderId) return 'host';
+    return room.coHosts?.some(c => c.oderId === oderId) ? 'co-host' : 'player';
+}
+
+/**
+ * What a player may do on the host's behalf; the host has every permission
+ */
+export function getPermissions(room: RoomRoles, oderId: string | null | undefined): CoHostPermission[] {
+    if (!oderId) return [];
+    if (room.hostId === oderId) return CO_HOST_PERMISSIONS;
+    return room.coHosts?.find(c => c.oderId === oderId)?.permissions ?? [];
+}
+
+/**
+ * Whether a player may act for the host. Without a permission only the host may.
+ */
+export function hasPermission(room: RoomRoles, oderId: string | null | undefined, permission?: CoHostPermission): boolean {
+    if (!permission) return getRole(room, oderId) === 'host';
+    return getPermissions(room, oderId).includes(permission);
+}
+
+/**
+ * Whether a player may kick, ban or mute another: never the host, and co-hosts only by the host
+ */
+export function canModerate(room: RoomRoles, actorId: string | null | undefined, targetId: string): boolean {
+    const target = getRole(room, targetId);
+    if (target === 'host' || actorId === targetId) return false;
+    return target === 'player' || getRole(room, actorId) === 'host';
+}
+
+export function isMuted(room: Pick<Room, 'muted'>, oderId: string | null | undefined): boolean {
+    return !!oderId && (room.muted ?? []).includes(oderId);
+}
+
+/**
+ * Whether a player, or anyone on their device, was banned from the room
+ */
+export function isBanned(room: RoomBans, oderId: string | null | undefined, deviceId?: string): boolean {
+    return (room.bans ?? []).some(ban => (!!oderId && ban.oderId === oderId) || (!!deviceId && ban.deviceId === deviceId));
+}
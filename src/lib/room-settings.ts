@@ -0,0 +1,32 @@
+// Changing a room's settings after it was created (host:update-settings)
+
+import type { RoomSettings } from './game-types';
+
+// Changed through their own events: game:schedule and host:set-access
+export type EditableRoomSettings = Omit<RoomSettings, 'scheduledStart' | 'minPlayers' | 'requireApproval'>;
+
+// Safe to change while a game is running; the rest only while the room is waiting
+export const LIVE_SETTINGS: readonly (keyof EditableRoomSettings)[] = [
+    'callSpeed',
+    'audioMode',
+    'autoMarkNumbers',
+    'visibility',
+    'maxPlayers',
+];
+
+export function isLiveSetting(key: keyof EditableRoomSettings): boolean {
+    return LIVE_SETTINGS.includes(key);
+}
+
+/**
+ * The settings whose value differs between the two, with their new value
+ */
+export function changedSettings(current: RoomSettings, next: EditableRoomSettings): Partial<EditableRoomSettings> {
+    const changes: Partial<EditableRoomSettings> = {};
+    for (const key of Object.keys(next) as (keyof EditableRoomSettings)[]) {
+        if (JSON.stringify(next[key]) !== JSON.stringify(current[key])) {
+            Object.assign(changes, { [key]: next[key] });
+        }
+    }
+    return changes;
+}
@@ -0,0 +1,115 @@
+// Room templates: named settings a host creates rooms from in one click.
+// Built-in presets ship with the app; a host's own templates stay on their device
+// and move between devices as a JSON file.
+
+import { v4 as uuidv4 } from 'uuid';
+import type { RoomSettings } from './game-types';
+import { DEFAULT_PRIZE_LADDER } from './prizes';
+import { DEFAULT_FALSE_CLAIM_PENALTY } from './claims';
+import { RoomTemplateFileSchema } from './validation';
+
+// The schedule belongs to one room, not to a template
+export type TemplateSettings = Omit<RoomSettings, 'scheduledStart' | 'minPlayers'>;
+
+export interface RoomTemplate {
+    id: string;
+    name: string;
+    description?: string; // built-in presets only
+    builtIn?: boolean;
+    settings: TemplateSettings;
+}
+
+// A new room's settings; the presets and templates saved from the host page start from these
+export const DEFAULT_TEMPLATE_SETTINGS: TemplateSettings = {
+    maxPlayers: 50,
+    ticketsPerPlayer: 2,
+    maxTicketsPerPlayer: 4,
+    autoCall: false,
+    callSpeed: 5,
+    checkMode: 'manual',
+    autoMarkNumbers: true,
+    audioMode: 'singing',
+    winPattern: { type: 'one-row' },
+    prizes: [],
+    tieMode: 'split',
+    gameFormat: '1-90',
+    falseClaimPenalty: DEFAULT_FALSE_CLAIM_PENALTY,
+    requireApproval: false,
+    visibility: 'private',
+};
+
+export const BUILT_IN_TEMPLATES: RoomTemplate[] = [
+    {
+        id: 'builtin:fair',
+        name: 'Hội chợ truyền thống',
+        description: 'Hát lô tô, dò tay, ba giải từ một hàng tới kín bảng',
+        builtIn: true,
+        settings: {
+            ...DEFAULT_TEMPLATE_SETTINGS,
+            maxTicketsPerPlayer: 6,
+            prizes: DEFAULT_PRIZE_LADDER,
+            tieMode: 'tiebreak',
+        },
+    },
+    {
+        id: 'builtin:quick',
+        name: 'Nhanh 5 phút',
+        description: 'Tự gọi số 5 giây một con, tự dò vé, kinh một hàng',
+        builtIn: true,
+        settings: {
+            ...DEFAULT_TEMPLATE_SETTINGS,
+            maxTicketsPerPlayer: 2,
+            autoCall: true,
+            callSpeed: 5,
+            checkMode: 'auto',
+            audioMode: 'calling',
+        },
+    },
+    {
+        id: 'builtin:kids',
+        name: 'Trẻ em',
+        description: 'Gọi số chậm, tự dò vé, kinh sai không bị phạt',
+        builtIn: true,
+        settings: {
+            ...DEFAULT_TEMPLATE_SETTINGS,
+            maxTicketsPerPlayer: 2,
+            autoCall: true,
+            callSpeed: 10,
+            checkMode: 'auto',
+            audioMode: 'calling',
+            falseClaimPenalty: { cooldown: false, forfeitAfter: 0, kickAfter: 0 },
+        },
+    },
+];
+
+/**
+ * Templates as a JSON file, for saving on the device or exporting
+ */
+export function toTemplateFile(templates: RoomTemplate[]): string {
+    return JSON.stringify({
+        version: 1,
+        templates: templates.map(({ id, name, settings }) => ({ id, name, settings })),
+    }, null, 2);
+}
+
+/**
+ * The templates in a JSON file, or null if it is not a valid template file.
+ * Templates without an id (or, with `freshIds`, all of them) get a new one.
+ */
+export function parseTemplateFile(json: string, freshIds = false): RoomTemplate[] | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        return null;
+    }
+
+    const parsed = RoomTemplateFileSchema.safeParse(data);
+    if (!parsed.success) return null;
+
+    return parsed.data.templates.map(({ id, name, settings }) => ({
+        id: !freshIds && id ? id : uuidv4(),
+        name,
+        settings,
+    }));
+}
@@ -1,95 +1,236 @@
-// Socket.io event types and utilities
+// The Socket.IO protocol shared by server.ts and useSocket: event signatures,
+// payload types and the protocol version checked in the connection handshake
 
-import type { Room, Player, LotoTicket, ValidationResult } from './game-types';
+import type { SocketError } from './errors';
+import type { Room, RoomSettings, Player, LotoTicket, ValidationResult, WinnerInfo, PrizeAward, DrawCommitment, AutoCallStatus, PresenceStatus, CoHostPermission, ClaimRecord, JoinRequest, RoomInvite, LobbyRoom } from './game-types';
+import type { EditableRoomSettings } from './room-settings';
+import type { Reaction, RoomReaction } from './reactions';
+
+// Bump the major for any change an older client or server cannot handle
+// (renamed or removed events, changed arguments); the minor for additions.
+export const PROTOCOL_VERSION = '2.6';
+
+// Sent by the client as Socket.IO `auth` when connecting
+export interface HandshakeAuth {
+    protocolVersion: string;
+    deviceId?: string; // random id kept by the browser, so a ban also covers new nicknames
+}
+
+// Namespace of the public lobby; it only sends 'lobby:rooms' and takes no client events
+export const LOBBY_NAMESPACE = '/lobby';
+
+/**
+ * Whether the server can talk to a client of this protocol version (same major)
+ */
+export function isCompatibleProtocol(version: unknown): boolean {
+    if (typeof version !== 'string') return false;
+    return version.split('.')[0] === PROTOCOL_VERSION.split('.')[0];
+}
+
+// What a player shows to get into a protected room; an invite skips password and approval
+export interface JoinCredentials {
+    password?: string;
+    invite?: string;
+}
+
+// Changes to who may join; a null password removes it
+export interface RoomAccess {
+    password?: string | null;
+    requireApproval?: boolean;
+}
+
+// A player's kinh claim on a ticket (grid/row narrow it down for grid and row patterns)
+export interface KinhClaim {
+    playerId: string;
+    nickname: string;
+    ticketId: string;
+    claimId?: string; // set on claims the server logged; a ticket the host checked by hand has none
+    grid?: number;
+    row?: number;
+}
+
+// Issued on create, join and rejoin; the token is sent back to rejoin later
+export interface PlayerSession {
+    playerId: string;
+    token: string; // signed and expiring, see SessionTokenService
+}
+
+// Everything a client needs to pick a room back up after a reload
+export interface RejoinState {
+    room: Room;
+    session: PlayerSession;
+    presence: Record<string, PresenceStatus>;
+    tickets: LotoTicket[];
+    joinRequests: JoinRequest[]; // players waiting to be admitted
+    pendingClaims: KinhClaim[]; // kinh calls waiting for a decision, for validators
+    calledNumbers: number[];
+    lastNumber: number | null;
+    winners: WinnerInfo[];
+    drawCommitment: DrawCommitment | null;
+    autoCall: AutoCallStatus;
+}
 
 // Server to Client Events
 export interface ServerToClientEvents {
     // Room events
     'room:updated': (room: Room) => void;
     'room:closed': () => void;
+    'room:presence': (data: { playerId: string; status: PresenceStatus }) => void;
+    'room:kicked': (reason: string) => void; // sent to the removed player only
+    'room:join-requests': (requests: JoinRequest[]) => void; // the approval queue changed
+    // Answers to a join that was AWAITING_APPROVAL, sent to the waiting player only;
+    // once admitted the client rejoins with the session to enter the room
+    'room:admitted': (roomCode: string, session: PlayerSession) => void;
+    'room:join-denied': () => void;
+    'room:reaction': (reaction: RoomReaction) => void;
 
     // Game events
-    'game:started': () => void;
+    'game:started': (commitment: DrawCommitment) => void; // hash of the draw seed
+    'game:seed-revealed': (commitment: DrawCommitment) => void; // seed of the session that just ended
     'game:number-called': (data: {
         number: number;
         folkName: string;
         calledNumbers: number[];
         timestamp: number;
     }) => void;
-    'game:winner': (data: {
-        winnerId: string;
-        nickname: string;
-        ticketId: string;
-        row: number;
-    }) => void;
+    'game:prize-won': (data: { award: PrizeAward; winners: WinnerInfo[] }) => void;
+    'game:winner': (data: PrizeAward) => void; // last prize of the ladder, the game is over
+    'game:claim-resolved': (claim: ClaimRecord) => void; // approved, rejected, invalid or expired
     'game:reset': () => void;
+    'game:auto-call': (status: AutoCallStatus) => void;
+    'game:start-reminder': (startsIn: number) => void; // ms until a scheduled start
 
     // Player events
     'player:joined': (player: Player) => void;
     'player:left': (playerId: string) => void;
-    'player:kinh-called': (data: {
-        playerId: string;
-        nickname: string;
-        ticketId: string;
-        row: number;
-    }) => void;
+    'player:kinh-called': (claim: KinhClaim) => void; // a claim is waiting for the host
     'player:tickets-updated': (tickets: LotoTicket[]) => void;
 
+    // Lobby events (LOBBY_NAMESPACE): every listed room, on connect and whenever one changes
+    'lobby:rooms': (rooms: LobbyRoom[]) => void;
+
     // Audio sync events
     'audio:play-sequence': (number: number) => void;
     'audio:stop': () => void;
 
-    // Error
-    'error': (message: string) => void;
+    // Failure of an event sent without an ack callback
+    'error': (error: SocketError) => void;
 }
 
 // Client to Server Events
+// Payloads are validated against SocketEventSchemas (validation.ts); failures are
+// answered with a SocketError through the ack, or an 'error' event when there is none
 export interface ClientToServerEvents {
     // Room management
     'room:create': (
         hostNickname: string,
-        callback: (room: Room | null, error?: string) => void
+        settings: Partial<RoomSettings>,
+        callback: (room: Room | null, error?: SocketError, session?: PlayerSession) => void
     ) => void;
     'room:join': (
         code: string,
         nickname: string,
-        callback: (room: Room | null, error?: string) => void
+        credentials: JoinCredentials,
+        callback: (room: Room | null, error?: SocketError, session?: PlayerSession) => void
     ) => void;
-    'room:leave': () => void;
+    // Join read-only: no seat, no tickets, no kinh
+    'room:spectate': (
+        code: string,
+        nickname: string,
+        credentials: JoinCredentials,
+        callback: (room: Room | null, error?: SocketError, session?: PlayerSession) => void
+    ) => void;
+    // A spectator takes a seat; only while the room is waiting
+    'room:become-player': (callback: (room: Room | null, error?: SocketError) => void) => void;
+    'room:rejoin': (
+        code: string,
+        token: string,
+        callback: (state: RejoinState | null, error?: SocketError) => void
+    ) => void;
+    'room:leave': () => void; // also withdraws a join waiting for approval
+    'room:close': () => void; // host only, ends the room for everyone
+    'player:presence': (status: 'online' | 'away') => void; // tab shown / hidden
 
     // Host actions
     'game:start': () => void;
-    'game:spin': (callback?: (number: number | null, error?: string) => void) => void;
+    'game:spin': (
+        spinId: string, // idempotency key, reused when the spin is retried
+        callback: (number: number | null, error?: SocketError) => void
+    ) => void;
     'game:reset': () => void;
+    'game:pause': () => void;
+    'game:resume': () => void;
+    'game:set-speed': (
+        speed: number, // seconds between calls
+        callback?: (ok: boolean, error?: SocketError) => void
+    ) => void;
+    'game:schedule': (
+        startAt: number | null, // epoch ms, null to cancel the scheduled start
+        minPlayers: number,
+        callback?: (ok: boolean, error?: SocketError) => void
+    ) => void;
+    // Host only; outside the waiting room just the live settings, see room-settings
+    'host:update-settings': (
+        changes: Partial<EditableRoomSettings>,
+        callback?: (ok: boolean, error?: SocketError) => void
+    ) => void;
     'host:validate-ticket': (
         ticketId: string,
-        callback: (result: ValidationResult) => void
+        callback: (result: ValidationResult) => void // result.error when refused
     ) => void;
     'host:validate-numbers': (
         numbers: number[],
-        callback: (result: ValidationResult) => void
+        callback: (result: ValidationResult) => void // result.error when refused
     ) => void;
     'host:approve-winner': (
+        claim: KinhClaim,
+        callback?: (approved: boolean, error?: SocketError) => void
+    ) => void;
+    'host:reject-winner': (claim: KinhClaim) => void;
+    'host:set-co-host': (
         playerId: string,
-        ticketId: string,
-        row: number
+        permissions: CoHostPermission[], // empty removes the co-host
+        callback?: (ok: boolean, error?: SocketError) => void
+    ) => void;
+    // Moderation: kick and mute need the 'kick' permission, ban is host only; muted players cannot react
+    'host:kick': (playerId: string, callback?: (ok: boolean, error?: SocketError) => void) => void;
+    'host:ban': (playerId: string, callback?: (ok: boolean, error?: SocketError) => void) => void;
+    'host:mute': (
+        playerId: string,
+        muted: boolean,
+        callback?: (ok: boolean, error?: SocketError) => void
+    ) => void;
+    // Access: set-access is host only, invites and admitting need the 'kick' permission
+    'host:set-access': (access: RoomAccess, callback?: (ok: boolean, error?: SocketError) => void) => void;
+    'host:create-invite': (
+        options: { maxUses: number; expiresInMinutes: number },
+        callback: (invite: RoomInvite | null, error?: SocketError) => void
+    ) => void;
+    'host:admit': (
+        requestId: string,
+        admit: boolean, // false turns the player away
+        callback?: (ok: boolean, error?: SocketError) => void
     ) => void;
 
     // Player actions
     'player:create-tickets': (
         count: number,
-        callback: (tickets: LotoTicket[] | null, error?: string) => void
+        callback: (tickets: LotoTicket[] | null, error?: SocketError) => void
     ) => void;
     'player:mark-number': (
         ticketId: string,
+        grid: number,
         row: number,
-        index: number
+        index: number,
+        callback?: (marked: boolean, error?: SocketError) => void
     ) => void;
     'player:call-kinh': (
         ticketId: string,
-        row: number,
-        callback: (result: ValidationResult) => void
+        grid: number | null,
+        row: number | null,
+        callback: (result: ValidationResult) => void // result.error when the claim was refused
     ) => void;
+    'player:react': (reaction: Reaction, callback?: (sent: boolean, error?: SocketError) => void) => void;
 }
 
 // Inter-server events (for internal use)
@@ -97,10 +238,12 @@ export interface InterServerEvents {
     ping: () => void;
 }
 
-// Socket data attached to each socket
+// Socket data attached to each socket, unset until it joins a room
 export interface SocketData {
-    oderId: string;
-    nickname: string;
-    roomCode: string;
-    isHost: boolean;
+    oderId?: string;
+    nickname?: string;
+    roomCode?: string;
+    isHost?: boolean;
+    token?: string; // session token the socket authenticated with
+    joinRequest?: { roomCode: string; requestId: string }; // waiting for approval, not in a room yet
 }
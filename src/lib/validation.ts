@@ -1,19 +1,73 @@
 import { z } from 'zod';
 import { RoomSettings } from '../lib/game-types';
+import { MAX_GAME_NUMBER } from './game-formats';
+import type { ClientToServerEvents } from './socket-events';
+import { REACTIONS } from './reactions';
+
+export const WinPatternSchema = z.object({
+    type: z.enum(['one-row', 'two-rows', 'full-grid', 'four-corners', 'first-five', 'custom']),
+    mask: z.array(z.array(z.boolean()).length(9)).length(3).optional(),
+}).refine(
+    (pattern) => pattern.type !== 'custom' || pattern.mask?.some(row => row.some(Boolean)),
+    { message: 'Custom win pattern needs at least one selected cell', path: ['mask'] }
+);
+
+export const PrizeSchema = z.object({
+    id: z.string().min(1).max(40),
+    name: z.string().min(1).max(40),
+    pattern: WinPatternSchema,
+});
+
+// Seconds between auto-called numbers
+export const CallSpeedSchema = z.number().int().min(5).max(60);
+
+// A scheduled start, up to a week ahead (a minute of slack for clock drift)
+export const ScheduledStartSchema = z.number().int().refine(
+    (at) => at > Date.now() - 60 * 1000 && at < Date.now() + 7 * 24 * 60 * 60 * 1000,
+    'Scheduled start must be within the next 7 days'
+);
+
+export const FalseClaimPenaltySchema = z.object({
+    cooldown: z.boolean().default(true),
+    forfeitAfter: z.number().int().min(0).max(10).default(0),
+    kickAfter: z.number().int().min(0).max(10).default(0),
+});
 
 export const RoomSettingsSchema = z.object({
     maxPlayers: z.number().min(2).max(100).default(50),
     ticketsPerPlayer: z.number().min(1).max(10).default(2),
     maxTicketsPerPlayer: z.number().min(1).max(20).default(4),
     autoCall: z.boolean().default(false),
-    callSpeed: z.number().min(5).max(60).default(5),
+    callSpeed: CallSpeedSchema.default(5),
     checkMode: z.enum(['manual', 'auto']).default('manual'),
     autoMarkNumbers: z.boolean().default(true),
     audioMode: z.enum(['singing', 'calling']).default('singing'),
+    winPattern: WinPatternSchema.default({ type: 'one-row' }),
+    prizes: z.array(PrizeSchema).max(10)
+        .refine(prizes => new Set(prizes.map(p => p.id)).size === prizes.length, 'Prize ids must be unique')
+        .default([]),
+    tieMode: z.enum(['split', 'tiebreak']).default('split'),
+    gameFormat: z.enum(['1-90', '1-89', '1-99']).default('1-90'),
+    falseClaimPenalty: FalseClaimPenaltySchema.default({ cooldown: true, forfeitAfter: 0, kickAfter: 0 }),
+    requireApproval: z.boolean().default(false),
+    visibility: z.enum(['public', 'private']).default('private'),
+    scheduledStart: ScheduledStartSchema.nullable().default(null),
+    minPlayers: z.number().int().min(0).max(100).default(0),
 });
 
 export type ValidatedRoomSettings = z.infer<typeof RoomSettingsSchema>;
 
+// What host:update-settings may change, see room-settings
+export const EditableRoomSettingsSchema = RoomSettingsSchema.omit({
+    scheduledStart: true,
+    minPlayers: true,
+    requireApproval: true,
+});
+
+// Only the changed settings are sent. They are checked by EditableRoomSettingsSchema once
+// merged over the room's current ones: partial() would fill in the defaults of the rest.
+export const RoomSettingsChangeSchema = z.partialRecord(EditableRoomSettingsSchema.keyof(), z.unknown());
+
 export const CreateRoomSchema = z.object({
     hostNickname: z.string().min(1).max(20),
     settings: RoomSettingsSchema.default({
@@ -21,18 +75,111 @@ export const CreateRoomSchema = z.object({
         ticketsPerPlayer: 2,
         maxTicketsPerPlayer: 4,
         autoCall: false,
-        callSpeed: 4,
+        callSpeed: 5,
         checkMode: 'manual',
         autoMarkNumbers: true,
-        audioMode: 'singing'
+        audioMode: 'singing',
+        winPattern: { type: 'one-row' },
+        prizes: [],
+        tieMode: 'split',
+        gameFormat: '1-90',
+        falseClaimPenalty: { cooldown: true, forfeitAfter: 0, kickAfter: 0 },
+        requireApproval: false,
+        visibility: 'private',
+        scheduledStart: null,
+        minPlayers: 0
     }),
 });
 
+// Room templates as saved on a device and exported to JSON, see room-templates.
+// Settings missing from an older file take their defaults.
+export const RoomTemplateSchema = z.object({
+    id: z.string().min(1).max(64).optional(),
+    name: z.string().trim().min(1).max(40),
+    settings: RoomSettingsSchema.omit({ scheduledStart: true, minPlayers: true }),
+});
+
+export const RoomTemplateFileSchema = z.object({
+    version: z.literal(1),
+    templates: z.array(RoomTemplateSchema),
+});
+
+export const RoomPasswordSchema = z.string().min(4).max(64);
+
 export const JoinRoomSchema = z.object({
     code: z.string().length(6),
     nickname: z.string().min(1).max(20),
+    credentials: z.object({
+        password: z.string().max(64).optional(),
+        invite: z.string().max(64).optional(),
+    }).default({}),
+});
+
+export const RoomAccessSchema = z.object({
+    password: RoomPasswordSchema.nullable().optional(), // null removes it
+    requireApproval: z.boolean().optional(),
+});
+
+export const CreateInviteSchema = z.object({
+    maxUses: z.number().int().min(1).max(100),
+    expiresInMinutes: z.number().int().min(5).max(7 * 24 * 60),
 });
 
 export const SpinNumberSchema = z.object({
     roomCode: z.string().length(6),
 });
+
+// Socket event payloads
+// One tuple per client event, for the arguments before the ack callback.
+// server.ts validates every event against these before its handler runs.
+
+const PlayerIdSchema = z.string().min(1).max(64);
+const TicketIdSchema = z.string().min(1).max(64);
+const GridIndexSchema = z.number().int().min(0).max(9);
+const RowIndexSchema = z.number().int().min(0).max(2);
+
+export const KinhClaimSchema = z.object({
+    playerId: z.string().max(64), // informational, the server goes by the ticket
+    nickname: z.string().max(20),
+    ticketId: TicketIdSchema,
+    claimId: z.string().min(1).max(64).optional(),
+    grid: GridIndexSchema.optional(),
+    row: RowIndexSchema.optional(),
+});
+
+export const SocketEventSchemas = {
+    'room:create': z.tuple([CreateRoomSchema.shape.hostNickname, CreateRoomSchema.shape.settings]),
+    'room:join': z.tuple([JoinRoomSchema.shape.code, JoinRoomSchema.shape.nickname, JoinRoomSchema.shape.credentials]),
+    'room:spectate': z.tuple([JoinRoomSchema.shape.code, JoinRoomSchema.shape.nickname, JoinRoomSchema.shape.credentials]),
+    'room:become-player': z.tuple([]),
+    'room:rejoin': z.tuple([z.string().length(6), z.string().min(1).max(1024)]),
+    'room:leave': z.tuple([]),
+    'room:close': z.tuple([]),
+    'player:presence': z.tuple([z.enum(['online', 'away'])]),
+    'game:start': z.tuple([]),
+    'game:spin': z.tuple([z.string().min(1).max(64)]),
+    'game:reset': z.tuple([]),
+    'game:pause': z.tuple([]),
+    'game:resume': z.tuple([]),
+    'game:set-speed': z.tuple([CallSpeedSchema]),
+    'game:schedule': z.tuple([ScheduledStartSchema.nullable(), z.number().int().min(0).max(100)]),
+    'host:update-settings': z.tuple([RoomSettingsChangeSchema]),
+    'host:validate-ticket': z.tuple([z.string().min(1).max(64)]),
+    'host:validate-numbers': z.tuple([z.array(z.number().int().min(1).max(MAX_GAME_NUMBER)).min(1).max(9)]),
+    'host:approve-winner': z.tuple([KinhClaimSchema]),
+    'host:reject-winner': z.tuple([KinhClaimSchema]),
+    'host:set-co-host': z.tuple([PlayerIdSchema, z.array(z.enum(['spin', 'validate', 'kick'])).max(3)]),
+    'host:kick': z.tuple([PlayerIdSchema]),
+    'host:ban': z.tuple([PlayerIdSchema]),
+    'host:mute': z.tuple([PlayerIdSchema, z.boolean()]),
+    'host:set-access': z.tuple([RoomAccessSchema]),
+    'host:create-invite': z.tuple([CreateInviteSchema]),
+    'host:admit': z.tuple([z.string().min(1).max(64), z.boolean()]),
+    'player:create-tickets': z.tuple([z.number().int().min(1).max(20)]),
+    'player:mark-number': z.tuple([TicketIdSchema, GridIndexSchema, RowIndexSchema, z.number().int().min(0).max(8)]),
+    'player:call-kinh': z.tuple([TicketIdSchema, GridIndexSchema.nullable(), RowIndexSchema.nullable()]),
+    'player:react': z.tuple([z.enum(REACTIONS)]),
+} satisfies Record<keyof ClientToServerEvents, z.ZodTuple>;
+
+export type SocketEventName = keyof typeof SocketEventSchemas;
+export type SocketEventArgs<E extends SocketEventName> = z.infer<(typeof SocketEventSchemas)[E]>;
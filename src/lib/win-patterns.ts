@@ -0,0 +1,234 @@
+// Win Pattern Engine for Lô Tô
+// Every kinh check (player claim, host validation, auto check) goes through evaluatePattern
+
+import type { LotoTicket, ValidationResult, WinPattern, WinPatternType } from './game-types';
+
+export const DEFAULT_WIN_PATTERN: WinPattern = { type: 'one-row' };
+
+export const WIN_PATTERN_LABELS: Record<WinPatternType, string> = {
+    'one-row': 'Một hàng',
+    'two-rows': 'Hai hàng cùng bảng',
+    'full-grid': 'Kín bảng',
+    'four-corners': 'Bốn góc',
+    'first-five': 'Năm số đầu tiên',
+    'custom': 'Mẫu tự chọn',
+};
+
+/**
+ * Minimal ticket shape the engine needs, so both LotoTicket and
+ * Mongo ticket documents can be evaluated directly
+ */
+export interface PatternTicket {
+    id: LotoTicket['id'];
+    ownerId: LotoTicket['ownerId'];
+    grids: { rows: { cells: (number | null)[] }[] }[];
+}
+
+/**
+ * One way of satisfying a pattern: `required` of `numbers` must be called
+ */
+interface Candidate {
+    grid?: number;
+    row?: number;
+    numbers: number[];
+    required: number;
+}
+
+const ROW_PAIRS: [number, number][] = [[0, 1], [0, 2], [1, 2]];
+
+function rowNumbers(cells: (number | null)[]): number[] {
+    return cells.filter((n): n is number => n !== null);
+}
+
+function getCandidates(ticket: PatternTicket, pattern: WinPattern): Candidate[] {
+    const candidates: Candidate[] = [];
+
+    switch (pattern.type) {
+        case 'one-row':
+            ticket.grids.forEach((grid, g) => {
+                grid.rows.forEach((row, r) => {
+                    const numbers = rowNumbers(row.cells);
+                    candidates.push({ grid: g, row: r, numbers, required: numbers.length });
+                });
+            });
+            break;
+
+        case 'two-rows':
+            ticket.grids.forEach((grid, g) => {
+                for (const [a, b] of ROW_PAIRS) {
+                    if (!grid.rows[a] || !grid.rows[b]) continue;
+                    const numbers = [...rowNumbers(grid.rows[a].cells), ...rowNumbers(grid.rows[b].cells)];
+                    candidates.push({ grid: g, numbers, required: numbers.length });
+                }
+            });
+            break;
+
+        case 'full-grid':
+            ticket.grids.forEach((grid, g) => {
+                const numbers = grid.rows.flatMap(row => rowNumbers(row.cells));
+                candidates.push({ grid: g, numbers, required: numbers.length });
+            });
+            break;
+
+        case 'four-corners':
+            ticket.grids.forEach((grid, g) => {
+                const top = rowNumbers(grid.rows[0]?.cells ?? []);
+                const bottom = rowNumbers(grid.rows[grid.rows.length - 1]?.cells ?? []);
+                if (top.length === 0 || bottom.length === 0) return;
+                const numbers = [top[0], top[top.length - 1], bottom[0], bottom[bottom.length - 1]];
+                candidates.push({ grid: g, numbers, required: numbers.length });
+            });
+            break;
+
+        case 'first-five': {
+            const numbers = ticket.grids.flatMap(grid => grid.rows.flatMap(row => rowNumbers(row.cells)));
+            candidates.push({ numbers, required: Math.min(5, numbers.length) });
+            break;
+        }
+
+        case 'custom': {
+            const mask = pattern.mask ?? [];
+            ticket.grids.forEach((grid, g) => {
+                const numbers: number[] = [];
+                grid.rows.forEach((row, r) => {
+                    row.cells.forEach((cell, c) => {
+                        if (cell !== null && mask[r]?.[c]) numbers.push(cell);
+                    });
+                });
+                // A mask that only covers empty cells on this grid cannot be won here
+                if (numbers.length > 0) {
+                    candidates.push({ grid: g, numbers, required: numbers.length });
+                }
+            });
+            break;
+        }
+    }
+
+    return candidates;
+}
+
+interface ClaimLocation {
+    grid?: number;
+    row?: number;
+}
+
+function getClaimedCandidates(ticket: PatternTicket, pattern: WinPattern, claim: ClaimLocation): Candidate[] {
+    return getCandidates(ticket, pattern).filter(c =>
+        (claim.grid === undefined || c.grid === undefined || c.grid === claim.grid) &&
+        (claim.row === undefined || c.row === undefined || c.row === claim.row)
+    );
+}
+
+function toResult(
+    ticket: PatternTicket,
+    pattern: WinPattern,
+    candidate: Candidate,
+    calledNumbers: number[]
+): ValidationResult {
+    const matched = candidate.numbers.filter(n => calledNumbers.includes(n));
+    // Missing numbers only make sense when every number of the candidate is needed
+    const missing = candidate.required === candidate.numbers.length
+        ? candidate.numbers.filter(n => !calledNumbers.includes(n))
+        : [];
+
+    return {
+        isValid: true,
+        isWinner: candidate.required > 0 && matched.length >= candidate.required,
+        matchedNumbers: matched,
+        missingNumbers: missing,
+        ticketId: ticket.id,
+        ownerId: ticket.ownerId,
+        grid: candidate.grid,
+        row: candidate.row,
+        pattern: pattern.type,
+        requiredCount: candidate.required,
+    };
+}
+
+/**
+ * Evaluate a ticket against a win pattern.
+ * When a claim location is given only candidates at that grid/row are considered.
+ * Returns the winning match if there is one, otherwise the closest candidate.
+ */
+export function evaluatePattern(
+    ticket: PatternTicket,
+    calledNumbers: number[],
+    pattern: WinPattern = DEFAULT_WIN_PATTERN,
+    claim: ClaimLocation = {}
+): ValidationResult {
+    const candidates = getClaimedCandidates(ticket, pattern, claim);
+
+    if (candidates.length === 0) {
+        return {
+            isValid: false,
+            isWinner: false,
+            matchedNumbers: [],
+            missingNumbers: [],
+            ticketId: ticket.id,
+            ownerId: ticket.ownerId,
+            pattern: pattern.type,
+        };
+    }
+
+    let best: ValidationResult | null = null;
+    for (const candidate of candidates) {
+        const result = toResult(ticket, pattern, candidate, calledNumbers);
+        if (result.isWinner) return result;
+
+        const progress = result.matchedNumbers.length / candidate.required;
+        const bestProgress = best ? best.matchedNumbers.length / best.requiredCount! : -1;
+        if (progress > bestProgress) best = result;
+    }
+
+    return best!;
+}
+
+/**
+ * Index in calledNumbers of the call that completed the pattern on this ticket,
+ * or null if it is not complete. Tickets with the same index tied on that call.
+ */
+export function findCompletionIndex(
+    ticket: PatternTicket,
+    calledNumbers: number[],
+    pattern: WinPattern = DEFAULT_WIN_PATTERN,
+    claim: ClaimLocation = {}
+): number | null {
+    const callIndex = new Map(calledNumbers.map((n, i) => [n, i]));
+    let earliest: number | null = null;
+
+    for (const candidate of getClaimedCandidates(ticket, pattern, claim)) {
+        if (candidate.required === 0) continue;
+        const indices = candidate.numbers
+            .map(n => callIndex.get(n))
+            .filter((i): i is number => i !== undefined)
+            .sort((a, b) => a - b);
+        if (indices.length < candidate.required) continue;
+
+        const completedAt = indices[candidate.required - 1];
+        if (earliest === null || completedAt < earliest) earliest = completedAt;
+    }
+
+    return earliest;
+}
+
+/**
+ * All winning matches on a ticket, e.g. to show a kinh button on each completed grid
+ */
+export function findWinningMatches(
+    ticket: PatternTicket,
+    calledNumbers: number[],
+    pattern: WinPattern = DEFAULT_WIN_PATTERN
+): ValidationResult[] {
+    return getCandidates(ticket, pattern)
+        .map(candidate => toResult(ticket, pattern, candidate, calledNumbers))
+        .filter(result => result.isWinner);
+}
+
+/**
+ * Human readable location of a match or claim, e.g. "Bảng 2, hàng 1"
+ */
+export function formatMatchLocation(grid?: number, row?: number): string {
+    if (grid === undefined) return 'Cả vé';
+    if (row === undefined) return `Bảng ${grid + 1}`;
+    return `Bảng ${grid + 1}, hàng ${row + 1}`;
+}
@@ -1,29 +1,67 @@
 // MongoDB Models for Lô Tô Virtual Show
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import type {
+    ClaimPenalty, ClaimStatus, CoHost, FalseClaimPenalty, GameFormatId, Prize, RoomVisibility, TieMode, WinPattern,
+    WinPatternType
+} from '../lib/game-types';
 
 // Room Model
 export interface IRoom extends Document {
     code: string;
     hostId: string;
     hostSocketId?: string;
+    coHosts: CoHost[];
+    muted: string[];    // player ids who may not send reactions
+    bans: IRoomBan[];   // kept for the room's whole life
+    passwordHash?: string; // scrypt, see RoomService.setAccess
     status: 'waiting' | 'playing' | 'finished';
     settings: {
         maxPlayers: number;
         ticketsPerPlayer: number;
+        maxTicketsPerPlayer: number;
+        autoCall: boolean;
+        callSpeed: number;
+        checkMode: 'manual' | 'auto';
         autoMarkNumbers: boolean;
         audioMode: 'singing' | 'calling';
+        winPattern: WinPattern;
+        prizes: Prize[];
+        tieMode: TieMode;
+        gameFormat: GameFormatId;
+        falseClaimPenalty: FalseClaimPenalty;
+        requireApproval: boolean;
+        visibility: RoomVisibility;
+        scheduledStart: number | null;
+        minPlayers: number;
     };
     players: IPlayer[];
+    spectators: IPlayer[]; // watching read-only, see RoomService.joinRoom
+    closedAt?: Date; // closed by the host or for being idle, archived later
     createdAt: Date;
     updatedAt: Date;
 }
 
+export interface IRoomBan {
+    oderId: string;
+    nickname: string;
+    deviceId?: string; // browser the player joined from, banned with them
+    bannedBy: string;
+    bannedAt: Date;
+}
+
 const roomSchema = new Schema<IRoom>(
     {
         code: { type: String, required: true, unique: true, index: true },
         hostId: { type: String, required: true },
         hostSocketId: { type: String },
+        coHosts: { type: [{ _id: false, oderId: String, permissions: [String] }], default: [] },
+        muted: { type: [String], default: [] },
+        bans: {
+            type: [{ _id: false, oderId: String, nickname: String, deviceId: String, bannedBy: String, bannedAt: Date }],
+            default: [],
+        },
+        passwordHash: { type: String },
         status: {
             type: String,
             enum: ['waiting', 'playing', 'finished'],
@@ -38,12 +76,30 @@ const roomSchema = new Schema<IRoom>(
             checkMode: { type: String, enum: ['manual', 'auto'], default: 'manual' },
             autoMarkNumbers: { type: Boolean, default: true },
             audioMode: { type: String, enum: ['singing', 'calling'], default: 'singing' },
+            winPattern: { type: Schema.Types.Mixed, default: () => ({ type: 'one-row' }) },
+            prizes: { type: [Schema.Types.Mixed], default: [] },
+            tieMode: { type: String, enum: ['split', 'tiebreak'], default: 'split' },
+            gameFormat: { type: String, enum: ['1-90', '1-89', '1-99'], default: '1-90' },
+            falseClaimPenalty: {
+                cooldown: { type: Boolean, default: true },
+                forfeitAfter: { type: Number, default: 0 },
+                kickAfter: { type: Number, default: 0 },
+            },
+            requireApproval: { type: Boolean, default: false },
+            visibility: { type: String, enum: ['public', 'private'], default: 'private' },
+            scheduledStart: { type: Number, default: null },
+            minPlayers: { type: Number, default: 0 },
         },
         players: { type: [Schema.Types.Mixed], default: [] },
+        spectators: { type: [Schema.Types.Mixed], default: [] },
+        closedAt: { type: Date, index: true },
     },
     { timestamps: true }
 );
 
+// Lobby listing: open public rooms, newest first
+roomSchema.index({ 'settings.visibility': 1, closedAt: 1, createdAt: -1 });
+
 // Player Model (embedded in room or separate for scalability)
 export interface IPlayer extends Document {
     oderId: string;
@@ -51,6 +107,8 @@ export interface IPlayer extends Document {
     socketId?: string;
     roomCode: string;
     isHost: boolean;
+    spectator: boolean;
+    deviceId?: string;
     joinedAt: Date;
 }
 
@@ -60,6 +118,8 @@ const playerSchema = new Schema<IPlayer>({
     socketId: { type: String },
     roomCode: { type: String, required: true, index: true },
     isHost: { type: Boolean, default: false },
+    spectator: { type: Boolean, default: false },
+    deviceId: { type: String },
     joinedAt: { type: Date, default: Date.now },
 });
 
@@ -97,20 +157,75 @@ const ticketSchema = new Schema<ITicket>({
 });
 
 // Game Session Model
+export interface ISessionWinner {
+    prizeId: string;
+    prizeName: string;
+    oderId: string;
+    nickname: string;
+    ticketId: string;
+    pattern: WinPatternType;
+    grid?: number;
+    row?: number;
+    share?: number;
+    awardedAt: Date;
+}
+
+export interface ISessionTie {
+    prizeId: string;
+    mode: TieMode;
+    number: number;
+    coWinners: {
+        oderId: string;
+        nickname: string;
+        ticketId: string;
+        grid?: number;
+        row?: number;
+        draw?: number;
+    }[];
+    resolvedAt: Date;
+}
+
+export interface ISessionClaim {
+    claimId: string;
+    oderId: string;
+    nickname: string;
+    ticketId: string;
+    prizeId: string;
+    grid?: number;
+    row?: number;
+    atCall: number;
+    status: ClaimStatus;
+    penalty?: ClaimPenalty;
+    claimedAt: Date;
+    resolvedAt?: Date;
+    resolvedBy?: string;
+}
+
 export interface IGameSession extends Document {
     sessionId: string;
     roomCode: string;
     calledNumbers: {
         number: number;
         calledAt: Date;
+        spinId?: string; // idempotency key of the game:spin that drew it
     }[];
+    gameFormat: GameFormatId;
+    seed?: string;     // draw seed, only loaded with select('+seed')
+    seedHash: string;  // sha256 of the seed, published when the game starts
+    paused: boolean;   // host paused auto-call
     startedAt: Date;
     endedAt?: Date;
+    winners: ISessionWinner[];
+    ties: ISessionTie[];
+    claims: ISessionClaim[];     // every kinh call and how it was decided
+    forfeitedTickets: string[];  // tickets that lost the right to win this game
     winner?: {
         oderId: string;
         nickname: string;
         ticketId: string;
-        row: number;
+        pattern: WinPatternType;
+        grid?: number;
+        row?: number;
     };
 }
 
@@ -121,16 +236,102 @@ const gameSessionSchema = new Schema<IGameSession>({
         {
             number: { type: Number, required: true },
             calledAt: { type: Date, default: Date.now },
+            spinId: { type: String },
         },
     ],
+    gameFormat: { type: String, enum: ['1-90', '1-89', '1-99'], default: '1-90' },
+    seed: { type: String, select: false },
+    seedHash: { type: String },
+    paused: { type: Boolean, default: false },
     startedAt: { type: Date, default: Date.now },
     endedAt: { type: Date },
+    winners: [
+        {
+            prizeId: { type: String, required: true },
+            prizeName: { type: String },
+            oderId: { type: String },
+            nickname: { type: String },
+            ticketId: { type: String },
+            pattern: { type: String },
+            grid: { type: Number },
+            row: { type: Number },
+            share: { type: Number },
+            awardedAt: { type: Date, default: Date.now },
+        },
+    ],
+    ties: [
+        {
+            prizeId: { type: String, required: true },
+            mode: { type: String, enum: ['split', 'tiebreak'] },
+            number: { type: Number },
+            coWinners: [
+                {
+                    oderId: { type: String },
+                    nickname: { type: String },
+                    ticketId: { type: String },
+                    grid: { type: Number },
+                    row: { type: Number },
+                    draw: { type: Number },
+                },
+            ],
+            resolvedAt: { type: Date, default: Date.now },
+        },
+    ],
+    claims: [
+        {
+            claimId: { type: String, required: true },
+            oderId: { type: String },
+            nickname: { type: String },
+            ticketId: { type: String },
+            prizeId: { type: String },
+            grid: { type: Number },
+            row: { type: Number },
+            atCall: { type: Number },
+            status: { type: String, enum: ['pending', 'approved', 'rejected', 'invalid', 'expired'] },
+            penalty: { type: String, enum: ['cooldown', 'forfeit', 'kick'] },
+            claimedAt: { type: Date, default: Date.now },
+            resolvedAt: { type: Date },
+            resolvedBy: { type: String },
+        },
+    ],
+    forfeitedTickets: { type: [String], default: [] },
     winner: {
         oderId: { type: String },
         nickname: { type: String },
         ticketId: { type: String },
+        pattern: { type: String },
+        grid: { type: Number },
         row: { type: Number },
     },
+}, {
+    toJSON: {
+        // Keep the seed out of the redis cache and socket payloads until it is revealed
+        transform: (_doc, ret) => {
+            delete ret.seed;
+            return ret;
+        },
+    },
+});
+
+// Room Archive Model (a closed room with its sessions, tickets and players)
+export interface IRoomArchive extends Document {
+    code: string;
+    room: IRoom;
+    sessions: IGameSession[];
+    tickets: ITicket[];
+    players: IPlayer[];
+    closedAt?: Date;
+    archivedAt: Date;
+}
+
+const roomArchiveSchema = new Schema<IRoomArchive>({
+    code: { type: String, required: true, index: true },
+    room: { type: Schema.Types.Mixed, required: true },
+    sessions: { type: [Schema.Types.Mixed], default: [] },
+    tickets: { type: [Schema.Types.Mixed], default: [] },
+    players: { type: [Schema.Types.Mixed], default: [] },
+    closedAt: { type: Date },
+    archivedAt: { type: Date, default: Date.now },
 });
 
 // Create models (handle hot reloading in development)
@@ -147,4 +348,8 @@ export const GameSession: Model<IGameSession> =
     mongoose.models.GameSession ||
     mongoose.model<IGameSession>('GameSession', gameSessionSchema);
 
-export default { Room, Player, Ticket, GameSession };
+export const RoomArchive: Model<IRoomArchive> =
+    mongoose.models.RoomArchive ||
+    mongoose.model<IRoomArchive>('RoomArchive', roomArchiveSchema);
+
+export default { Room, Player, Ticket, GameSession, RoomArchive };
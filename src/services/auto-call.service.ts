@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import redis from '../lib/redis';
+
+// Auto-call state shared by every instance through redis.
+// A room is auto-calling while its state key exists; the instance holding the
+// room's lease is the only one that spins. Leases expire, so a room whose
+// instance died is picked up by another one on its next poll.
+// The same poll wakes rooms with a scheduled start: a sorted set of wake-up times,
+// where removing the due entry is what lets exactly one instance handle it.
+export interface AutoCallState {
+    speed: number;  // seconds between calls
+    nextAt: number; // epoch ms of the next call
+}
+
+type AutoCallTick = (roomCode: string) => Promise<boolean>;
+// Returns the epoch ms to wake the room again (a reminder or a postponed start), or null
+type ScheduledWake = (roomCode: string) => Promise<number | null>;
+
+// Renew only if this instance still holds the lease
+const RENEW_LEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+export class AutoCallService {
+    private static STATE_PREFIX = 'autocall:state:';
+    private static LEASE_PREFIX = 'autocall:lease:';
+    private static ROOMS_KEY = 'autocall:rooms';
+    private static STARTS_KEY = 'autocall:starts';
+    private static STATE_TTL = 3600; // seconds, same as the room cache
+    private static LEASE_MS = 5000;
+    private static POLL_MS = 500;
+
+    private static instanceId = randomUUID();
+    private static timer: NodeJS.Timeout | null = null;
+    private static ticking = new Set<string>();
+    private static onTick: AutoCallTick | null = null;
+    private static onWake: ScheduledWake | null = null;
+
+    /**
+     * Start polling for rooms to drive. `onTick` calls one number and
+     * returns false when auto-call should stop (no numbers left, game over).
+     * `onWake` handles a room whose scheduled wake-up is due.
+     */
+    static init(onTick: AutoCallTick, onWake: ScheduledWake): void {
+        this.onTick = onTick;
+        this.onWake = onWake;
+        if (this.timer) return;
+
+        this.timer = setInterval(() => {
+            this.poll().catch(err => console.error('Auto call poll error:', err));
+        }, this.POLL_MS);
+    }
+
+    static shutdown(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Turn auto-call on for a room; the first number is called after one interval
+     */
+    static async enable(roomCode: string, speed: number): Promise<void> {
+        const code = roomCode.toUpperCase();
+        const state: AutoCallState = { speed, nextAt: Date.now() + speed * 1000 };
+
+        await Promise.all([
+            redis.setex(`${this.STATE_PREFIX}${code}`, this.STATE_TTL, JSON.stringify(state)),
+            redis.sadd(this.ROOMS_KEY, code),
+        ]);
+    }
+
+    /**
+     * Turn auto-call off for a room, whichever instance is driving it
+     */
+    static async disable(roomCode: string): Promise<void> {
+        const code = roomCode.toUpperCase();
+
+        await Promise.all([
+            redis.del(`${this.STATE_PREFIX}${code}`),
+            redis.del(`${this.LEASE_PREFIX}${code}`),
+            redis.srem(this.ROOMS_KEY, code),
+        ]);
+    }
+
+    static async isEnabled(roomCode: string): Promise<boolean> {
+        return (await redis.exists(`${this.STATE_PREFIX}${roomCode.toUpperCase()}`)) === 1;
+    }
+
+    /**
+     * Change the interval of a running schedule; the next call is one new interval away.
+     * Returns false if the room is not auto-calling.
+     */
+    static async setSpeed(roomCode: string, speed: number): Promise<boolean> {
+        const next: AutoCallState = { speed, nextAt: Date.now() + speed * 1000 };
+        const updated = await redis.set(
+            `${this.STATE_PREFIX}${roomCode.toUpperCase()}`, JSON.stringify(next), 'EX', this.STATE_TTL, 'XX'
+        );
+        return updated !== null;
+    }
+
+    /**
+     * Current schedule of a room, or null if it is not auto-calling
+     */
+    static async getSchedule(roomCode: string): Promise<AutoCallState | null> {
+        const raw = await redis.get(`${this.STATE_PREFIX}${roomCode.toUpperCase()}`);
+        return raw ? JSON.parse(raw) : null;
+    }
+
+    /**
+     * Wake a room at this time (replacing any earlier wake-up), for a scheduled start
+     */
+    static async scheduleWake(roomCode: string, at: number): Promise<void> {
+        await redis.zadd(this.STARTS_KEY, at, roomCode.toUpperCase());
+    }
+
+    static async cancelWake(roomCode: string): Promise<void> {
+        await redis.zrem(this.STARTS_KEY, roomCode.toUpperCase());
+    }
+
+    private static async poll(): Promise<void> {
+        const [rooms, due] = await Promise.all([
+            redis.smembers(this.ROOMS_KEY),
+            redis.zrangebyscore(this.STARTS_KEY, 0, Date.now()),
+        ]);
+        await Promise.all([
+            ...rooms.map(code => this.drive(code)),
+            ...due.map(code => this.wake(code)),
+        ]);
+    }
+
+    private static async wake(code: string): Promise<void> {
+        if (!this.onWake) return;
+        // Another instance took it first
+        if ((await redis.zrem(this.STARTS_KEY, code)) === 0) return;
+
+        try {
+            const next = await this.onWake(code);
+            if (next !== null) await this.scheduleWake(code, next);
+        } catch (err) {
+            console.error(`Scheduled start error room ${code}:`, err);
+        }
+    }
+
+    private static async drive(code: string): Promise<void> {
+        if (this.ticking.has(code) || !this.onTick) return;
+
+        const raw = await redis.get(`${this.STATE_PREFIX}${code}`);
+        if (!raw) {
+            // State expired or was removed without cleaning the registry
+            await redis.srem(this.ROOMS_KEY, code);
+            return;
+        }
+
+        if (!(await this.holdLease(code))) return;
+
+        const state: AutoCallState = JSON.parse(raw);
+        if (Date.now() < state.nextAt) return;
+
+        this.ticking.add(code);
+        try {
+            // XX: a disable() that raced with this poll must not be undone
+            const next: AutoCallState = { ...state, nextAt: Date.now() + state.speed * 1000 };
+            const updated = await redis.set(
+                `${this.STATE_PREFIX}${code}`, JSON.stringify(next), 'EX', this.STATE_TTL, 'XX'
+            );
+            if (!updated) return;
+
+            const keepGoing = await this.onTick(code);
+            if (!keepGoing) await this.disable(code);
+        } catch (err) {
+            console.error(`Auto call error room ${code}:`, err);
+            await this.disable(code);
+        } finally {
+            this.ticking.delete(code);
+        }
+    }
+
+    private static async holdLease(code: string): Promise<boolean> {
+        const key = `${this.LEASE_PREFIX}${code}`;
+
+        const acquired = await redis.set(key, this.instanceId, 'PX', this.LEASE_MS, 'NX');
+        if (acquired) return true;
+
+        const renewed = await redis.eval(RENEW_LEASE_SCRIPT, 1, key, this.instanceId, this.LEASE_MS);
+        return renewed === 1;
+    }
+}
@@ -1,21 +1,53 @@
-import { GameSession, IGameSession, Room, Ticket, Player } from '../models';
+import { randomInt, randomUUID } from 'crypto';
+import { GameSession, IGameSession, ISessionClaim, ISessionTie, ISessionWinner, Room, Ticket, Player } from '../models';
 import redis from '../lib/redis';
+import type {
+    ClaimPenalty, ClaimRecord, ClaimStatus, DrawCommitment, Prize, PrizeAward, RoomSettings, TieEntry, TieMode, WinnerInfo
+} from '../lib/game-types';
+import { evaluatePattern, findCompletionIndex } from '../lib/win-patterns';
+import { getCurrentPrize, getPrizeLadder, isFinalPrize } from '../lib/prizes';
+import { generateNextNumber } from '../lib/number-generator';
+import { getGameFormat, type GameFormat } from '../lib/game-formats';
+import { createSeed, getDrawOrder, hashSeed, verifyDraw, type DrawVerification } from '../lib/fair-draw';
+import { GameError } from '../lib/errors';
+import type { KinhClaim } from '../lib/socket-events';
 
 export class GameService {
     private static SESSION_CACHE_PREFIX = 'session:';
+    private static SPIN_RETRIES = 5;
+
+    /**
+     * Start a session. Throws GAME_IN_PROGRESS if the room is already playing, so a
+     * second start cannot leave the running session behind with its seed unrevealed,
+     * and ROOM_CLOSED once the room was closed.
+     */
+    static async startGame(roomCode: string, format: GameFormat): Promise<IGameSession> {
+        // Claiming the room first makes concurrent starts race for it, not both succeed
+        const claimed = await Room.findOneAndUpdate(
+            { code: roomCode.toUpperCase(), status: { $ne: 'playing' }, closedAt: { $exists: false } },
+            { status: 'playing' }
+        );
+        if (!claimed) {
+            const room = await Room.findOne({ code: roomCode.toUpperCase() });
+            if (!room) throw new GameError('ROOM_NOT_FOUND');
+            throw new GameError(room.closedAt ? 'ROOM_CLOSED' : 'GAME_IN_PROGRESS');
+        }
 
-    static async startGame(roomCode: string): Promise<IGameSession> {
         const sessionId = Math.random().toString(36).substring(2, 15);
+        // The draw order is fixed by this seed; only its hash is public until the session ends
+        const seed = createSeed();
         const session = new GameSession({
             sessionId,
             roomCode: roomCode.toUpperCase(),
             calledNumbers: [],
+            gameFormat: format.id,
+            seed,
+            seedHash: hashSeed(seed),
             startedAt: new Date(),
         });
 
         await Promise.all([
             session.save(),
-            Room.findOneAndUpdate({ code: roomCode.toUpperCase() }, { status: 'playing' }),
             redis.del(`room:${roomCode.toUpperCase()}`)
         ]);
 
@@ -23,30 +55,48 @@ export class GameService {
         return session;
     }
 
-    static async spinNumber(roomCode: string): Promise<{ number: number; session: IGameSession } | null> {
-        const session = await GameSession.findOne({
-            roomCode: roomCode.toUpperCase(),
-            endedAt: { $exists: false }
-        }).sort({ startedAt: -1 });
+    /**
+     * Call the next number. Spins are serialized per room: the push only applies if
+     * no other number was called since the session was read, otherwise it retries.
+     * A spin retried with the same `spinId` returns the number it already drew
+     * (`replayed`) instead of drawing a new one.
+     */
+    static async spinNumber(
+        roomCode: string,
+        spinId?: string
+    ): Promise<{ number: number; session: IGameSession; replayed: boolean } | null> {
+        for (let attempt = 0; attempt < this.SPIN_RETRIES; attempt++) {
+            const session = await GameSession.findOne({
+                roomCode: roomCode.toUpperCase(),
+                endedAt: { $exists: false }
+            }).select('+seed').sort({ startedAt: -1 });
 
-        if (!session) return null;
+            if (!session) return null;
 
-        const calledNums = session.calledNumbers.map(c => c.number);
-        const available = [];
-        // Game range is 1-89 as per previous conversation context
-        for (let i = 1; i <= 89; i++) {
-            if (!calledNums.includes(i)) available.push(i);
-        }
+            const previous = spinId ? session.calledNumbers.find(c => c.spinId === spinId) : undefined;
+            if (previous) return { number: previous.number, session, replayed: true };
 
-        if (available.length === 0) return null;
+            const format = getGameFormat(session.gameFormat);
+            const calledNums = session.calledNumbers.map(c => c.number);
+            // Sessions started before seeded draws keep drawing at random
+            const number = session.seed
+                ? getDrawOrder(session.seed, format)[calledNums.length] ?? null
+                : generateNextNumber(calledNums, format);
+            if (number === null) return null;
 
-        const number = available[Math.floor(Math.random() * available.length)];
-        session.calledNumbers.push({ number, calledAt: new Date() });
+            const updated = await GameSession.findOneAndUpdate(
+                { _id: session._id, endedAt: { $exists: false }, calledNumbers: { $size: calledNums.length } },
+                { $push: { calledNumbers: { number, calledAt: new Date(), spinId } } },
+                { new: true }
+            );
 
-        await session.save();
-        await this.cacheSession(session);
+            if (updated) {
+                await this.cacheSession(updated);
+                return { number, session: updated, replayed: false };
+            }
+        }
 
-        return { number, session };
+        return null;
     }
 
     static async getActiveSession(roomCode: string): Promise<IGameSession | null> {
@@ -59,19 +109,84 @@ export class GameService {
         }).sort({ startedAt: -1 });
     }
 
-    static async resetGame(roomCode: string): Promise<void> {
-        // 1. End active session if any
+    /**
+     * Persist the paused flag on the active session so rejoining clients see it
+     */
+    static async setPaused(roomCode: string, paused: boolean): Promise<IGameSession | null> {
+        const session = await GameSession.findOneAndUpdate(
+            { roomCode: roomCode.toUpperCase(), endedAt: { $exists: false } },
+            { $set: { paused } },
+            { new: true, sort: { startedAt: -1 } }
+        );
+        if (session) await this.cacheSession(session);
+        return session;
+    }
+
+    /**
+     * Seed commitment of a session, with the seed once the session has ended
+     */
+    static async getDrawCommitment(sessionId: string): Promise<DrawCommitment | null> {
+        const session = await GameSession.findOne({ sessionId }).select('+seed');
+        if (!session?.seedHash) return null;
+
+        return {
+            sessionId: session.sessionId,
+            seedHash: session.seedHash,
+            seed: session.endedAt ? session.seed : undefined,
+        };
+    }
+
+    /**
+     * Recompute an ended session's draw from its revealed seed and check it
+     * against the numbers that were called
+     */
+    static async verifySession(sessionId: string): Promise<{
+        session: IGameSession;
+        verification: DrawVerification | null;
+    } | null> {
+        const session = await GameSession.findOne({ sessionId }).select('+seed');
+        if (!session) return null;
+
+        // Nothing to verify while the seed is secret, or for sessions without one
+        if (!session.endedAt || !session.seed) return { session, verification: null };
+
+        return {
+            session,
+            verification: verifyDraw(
+                session.seed,
+                session.seedHash,
+                session.calledNumbers.map(c => c.number),
+                getGameFormat(session.gameFormat)
+            ),
+        };
+    }
+
+    /**
+     * End the active session, if any, without touching the room.
+     * Returns the id of the ended session.
+     */
+    static async endSession(roomCode: string): Promise<string | null> {
         // Fetch directly from DB to ensure Mongoose document
         const session = await GameSession.findOne({
             roomCode: roomCode.toUpperCase(),
             endedAt: { $exists: false }
         }).sort({ startedAt: -1 });
 
-        if (session) {
-            session.endedAt = new Date();
-            await session.save();
-            await redis.del(`${this.SESSION_CACHE_PREFIX}${roomCode.toUpperCase()}`);
-        }
+        if (!session) return null;
+
+        session.endedAt = new Date();
+        await session.save();
+        await redis.del(`${this.SESSION_CACHE_PREFIX}${roomCode.toUpperCase()}`);
+        return session.sessionId;
+    }
+
+    /**
+     * End the active session and send the room back to waiting.
+     * Returns the id of the ended session, if there was one.
+     */
+    static async resetGame(roomCode: string): Promise<string | null> {
+        // 1. End active session if any
+        const sessionId = await this.endSession(roomCode);
 
         // 2. Set room to waiting
         await Room.findOneAndUpdate(
@@ -81,6 +196,315 @@ export class GameService {
 
         // 3. Clear room cache
         await redis.del(`room:${roomCode.toUpperCase()}`);
+
+        return sessionId;
+    }
+
+    /**
+     * Current prize of the active session, or null once the ladder is complete
+     */
+    static getCurrentPrize(session: IGameSession, settings: RoomSettings): Prize | null {
+        return getCurrentPrize(getPrizeLadder(settings), session.winners ?? []);
+    }
+
+    /**
+     * Record a settled prize. Awarding the last prize of the ladder ends the
+     * session and marks the room finished. Returns null if the prize was
+     * already taken or the session is over.
+     */
+    static async awardPrize(
+        roomCode: string,
+        award: PrizeAward,
+        isFinal: boolean
+    ): Promise<IGameSession | null> {
+        const code = roomCode.toUpperCase();
+        const awardedAt = new Date();
+        const entries: ISessionWinner[] = award.winners.map(winner => ({
+            prizeId: winner.prizeId,
+            prizeName: winner.prizeName,
+            oderId: winner.winnerId,
+            nickname: winner.nickname,
+            ticketId: winner.ticketId,
+            pattern: winner.pattern,
+            grid: winner.grid,
+            row: winner.row,
+            share: winner.share,
+            awardedAt
+        }));
+        const tie: ISessionTie | undefined = award.tie && {
+            prizeId: award.prizeId,
+            mode: award.tie.mode,
+            number: award.tie.number,
+            coWinners: award.tie.coWinners.map(entry => ({
+                oderId: entry.winnerId,
+                nickname: entry.nickname,
+                ticketId: entry.ticketId,
+                grid: entry.grid,
+                row: entry.row,
+                draw: entry.draw
+            })),
+            resolvedAt: awardedAt
+        };
+        const first = award.winners[0];
+
+        // The $ne precondition keeps two concurrent claims from taking the same prize
+        const session = await GameSession.findOneAndUpdate(
+            { roomCode: code, endedAt: { $exists: false }, 'winners.prizeId': { $ne: award.prizeId } },
+            {
+                $push: {
+                    winners: { $each: entries },
+                    ...(tie && { ties: tie })
+                },
+                ...(isFinal && {
+                    $set: {
+                        winner: {
+                            oderId: first.winnerId,
+                            nickname: first.nickname,
+                            ticketId: first.ticketId,
+                            pattern: first.pattern,
+                            grid: first.grid,
+                            row: first.row
+                        },
+                        endedAt: awardedAt
+                    }
+                })
+            },
+            { new: true }
+        );
+
+        if (!session) return null;
+
+        if (isFinal) {
+            await Promise.all([
+                Room.findOneAndUpdate({ code }, { status: 'finished' }),
+                redis.del(`${this.SESSION_CACHE_PREFIX}${code}`),
+                redis.del(`room:${code}`)
+            ]);
+        } else {
+            await this.cacheSession(session);
+        }
+
+        return session;
+    }
+
+    /**
+     * Settle the current prize: find every ticket that completed it on the same
+     * call, resolve any tie with the room's tie mode and record the award.
+     * Auto check takes the earliest completing call; a claim passes the call
+     * its ticket completed on, so earlier tickets that never claimed are left out.
+     */
+    static async settlePrize(
+        roomCode: string,
+        session: IGameSession,
+        settings: RoomSettings,
+        atCall?: number
+    ): Promise<{ award: PrizeAward; session: IGameSession } | null> {
+        const ladder = getPrizeLadder(settings);
+        const winners = session.winners ?? [];
+        const prize = getCurrentPrize(ladder, winners);
+        if (!prize) return null;
+
+        const calledNumbers = session.calledNumbers.map(c => c.number);
+        const coWinners = await this.findCoWinners(roomCode, calledNumbers, prize, session.forfeitedTickets ?? [], atCall);
+        if (!coWinners) return null;
+
+        const award = this.resolveTie(prize, coWinners.winners, settings.tieMode, calledNumbers[coWinners.atCall]);
+        const updated = await this.awardPrize(roomCode, award, isFinalPrize(ladder, winners, prize));
+        return updated ? { award, session: updated } : null;
+    }
+
+    private static async findCoWinners(
+        roomCode: string,
+        calledNumbers: number[],
+        prize: Prize,
+        forfeited: string[],
+        atCall?: number
+    ): Promise<{ atCall: number; winners: WinnerInfo[] } | null> {
+        const code = roomCode.toUpperCase();
+        // Only players still in the room: tickets of those who left, were kicked or banned stay behind
+        const players = await Player.find({ roomCode: code });
+        const tickets = await Ticket.find({
+            roomCode: code,
+            id: { $nin: forfeited },
+            ownerId: { $in: players.map(p => p.oderId) },
+        });
+
+        const completed = tickets
+            .map(ticket => ({ ticket, index: findCompletionIndex(ticket, calledNumbers, prize.pattern) }))
+            .filter((c): c is { ticket: typeof c.ticket; index: number } => c.index !== null);
+        if (completed.length === 0) return null;
+
+        const target = atCall ?? Math.min(...completed.map(c => c.index));
+        const tied = completed.filter(c => c.index === target);
+        if (tied.length === 0) return null;
+
+        const calledAtTarget = calledNumbers.slice(0, target + 1);
+
+        return {
+            atCall: target,
+            winners: tied.map(({ ticket }) => {
+                const result = evaluatePattern(ticket, calledAtTarget, prize.pattern);
+                return {
+                    winnerId: ticket.ownerId,
+                    nickname: players.find(p => p.oderId === ticket.ownerId)?.nickname || 'Unknown',
+                    ticketId: ticket.id,
+                    prizeId: prize.id,
+                    prizeName: prize.name,
+                    pattern: prize.pattern.type,
+                    grid: result.grid,
+                    row: result.row
+                };
+            })
+        };
+    }
+
+    private static resolveTie(prize: Prize, winners: WinnerInfo[], mode: TieMode, number: number): PrizeAward {
+        if (winners.length === 1) {
+            return { prizeId: prize.id, prizeName: prize.name, winners };
+        }
+
+        if (mode === 'split') {
+            const shared = winners.map(w => ({ ...w, share: 1 / winners.length }));
+            return {
+                prizeId: prize.id,
+                prizeName: prize.name,
+                winners: shared,
+                tie: { mode, number, coWinners: shared }
+            };
+        }
+
+        // Tie-breaker: every co-winner draws a distinct number from 1-99, highest wins
+        const drawn = new Set<number>();
+        const coWinners: TieEntry[] = winners.map(w => {
+            let draw: number;
+            do {
+                draw = randomInt(1, 100);
+            } while (drawn.has(draw));
+            drawn.add(draw);
+            return { ...w, draw };
+        });
+        const top = coWinners.reduce((best, entry) => entry.draw! > best.draw! ? entry : best);
+
+        return {
+            prizeId: prize.id,
+            prizeName: prize.name,
+            winners: [winners[coWinners.indexOf(top)]],
+            tie: { mode, number, coWinners }
+        };
+    }
+
+    /**
+     * Log a kinh claim on the active session. Claims the server could decide
+     * on the spot are logged already resolved.
+     */
+    static async logClaim(
+        roomCode: string,
+        claim: Omit<ISessionClaim, 'claimId' | 'claimedAt'>
+    ): Promise<{ claim: ISessionClaim; session: IGameSession } | null> {
+        const now = new Date();
+        const entry: ISessionClaim = {
+            ...claim,
+            claimId: randomUUID(),
+            claimedAt: now,
+            ...(claim.status !== 'pending' && { resolvedAt: now }),
+        };
+
+        const session = await GameSession.findOneAndUpdate(
+            { roomCode: roomCode.toUpperCase(), endedAt: { $exists: false } },
+            { $push: { claims: entry } },
+            { new: true, sort: { startedAt: -1 } }
+        );
+        if (!session) return null;
+
+        await this.cacheSession(session);
+        return { claim: entry, session };
+    }
+
+    /**
+     * Decide a pending claim. Returns null if it was already decided (or is unknown).
+     * The session may have ended in the meantime; its claims are still settled.
+     */
+    static async resolveClaim(
+        roomCode: string,
+        claimId: string,
+        outcome: { status: Exclude<ClaimStatus, 'pending'>; penalty?: ClaimPenalty; resolvedBy: string }
+    ): Promise<{ claim: ISessionClaim; session: IGameSession } | null> {
+        const session = await GameSession.findOneAndUpdate(
+            { roomCode: roomCode.toUpperCase(), claims: { $elemMatch: { claimId, status: 'pending' } } },
+            {
+                $set: {
+                    'claims.$.status': outcome.status,
+                    'claims.$.resolvedAt': new Date(),
+                    'claims.$.resolvedBy': outcome.resolvedBy,
+                    ...(outcome.penalty && { 'claims.$.penalty': outcome.penalty }),
+                },
+            },
+            { new: true, sort: { startedAt: -1 } }
+        );
+        if (!session) return null;
+
+        if (!session.endedAt) await this.cacheSession(session);
+        const claim = session.claims.find(c => c.claimId === claimId)!;
+        return { claim, session };
+    }
+
+    /**
+     * A ticket loses the right to win for the rest of the session
+     */
+    static async forfeitTicket(roomCode: string, ticketId: string): Promise<IGameSession | null> {
+        const session = await GameSession.findOneAndUpdate(
+            { roomCode: roomCode.toUpperCase(), endedAt: { $exists: false } },
+            { $addToSet: { forfeitedTickets: ticketId } },
+            { new: true, sort: { startedAt: -1 } }
+        );
+        if (session) await this.cacheSession(session);
+        return session;
+    }
+
+    static toClaimRecord(claim: ISessionClaim): ClaimRecord {
+        return {
+            claimId: claim.claimId,
+            playerId: claim.oderId,
+            nickname: claim.nickname,
+            ticketId: claim.ticketId,
+            prizeId: claim.prizeId,
+            grid: claim.grid ?? undefined,
+            row: claim.row ?? undefined,
+            atCall: claim.atCall,
+            status: claim.status,
+            penalty: claim.penalty ?? undefined,
+            claimedAt: claim.claimedAt,
+            resolvedAt: claim.resolvedAt ?? undefined,
+            resolvedBy: claim.resolvedBy ?? undefined
+        };
+    }
+
+    /**
+     * A pending claim as the host is asked to decide it (player:kinh-called)
+     */
+    static toKinhClaim(claim: ISessionClaim): KinhClaim {
+        return {
+            playerId: claim.oderId,
+            nickname: claim.nickname,
+            ticketId: claim.ticketId,
+            claimId: claim.claimId,
+            grid: claim.grid ?? undefined,
+            row: claim.row ?? undefined
+        };
+    }
+
+    static toWinnerInfo(award: ISessionWinner): WinnerInfo {
+        return {
+            winnerId: award.oderId,
+            nickname: award.nickname,
+            ticketId: award.ticketId,
+            prizeId: award.prizeId,
+            prizeName: award.prizeName,
+            pattern: award.pattern,
+            grid: award.grid ?? undefined,
+            row: award.row ?? undefined,
+            share: award.share ?? undefined
+        };
     }
 
     private static async cacheSession(session: IGameSession): Promise<void> {
@@ -88,52 +512,39 @@ export class GameService {
     }
 
 
-    static async checkAutoWinner(roomCode: string, calledNumbers: number[]) {
+    /**
+     * Auto check mode: settle every open prize that a ticket in the room has completed.
+     * Several prizes can fall on the same call (e.g. a row that also completes the grid).
+     */
+    static async checkAutoWinner(
+        roomCode: string,
+        settings: RoomSettings
+    ): Promise<{ awards: PrizeAward[]; session: IGameSession | null }> {
+        const awards: PrizeAward[] = [];
+
         try {
-            // Find all tickets in room
-            const tickets = await Ticket.find({ roomCode: roomCode.toUpperCase() });
-
-            for (const ticket of tickets) {
-                // Check all grids/rows
-                for (const grid of ticket.grids) {
-                    for (let rowIndex = 0; rowIndex < grid.rows.length; rowIndex++) {
-                        const row = grid.rows[rowIndex];
-                        // Check if row is full
-                        const ns = row.cells.filter((n): n is number => n !== null);
-                        const isWinner = ns.every(n => calledNumbers.includes(n));
-
-                        if (isWinner) {
-                            // Fetch owner info
-                            const player = await Player.findOne({ oderId: ticket.ownerId });
-
-                            // Update session
-                            await GameSession.findOneAndUpdate(
-                                { roomCode: roomCode.toUpperCase(), endedAt: null },
-                                {
-                                    winner: {
-                                        oderId: ticket.ownerId,
-                                        nickname: player?.nickname || 'Unknown',
-                                        ticketId: ticket.id,
-                                        row: rowIndex
-                                    },
-                                    endedAt: new Date()
-                                }
-                            );
-
-                            return {
-                                winnerId: ticket.ownerId,
-                                nickname: player?.nickname || 'Unknown',
-                                ticketId: ticket.id,
-                                row: rowIndex
-                            };
-                        }
-                    }
-                }
+            const active = await GameSession.findOne({
+                roomCode: roomCode.toUpperCase(),
+                endedAt: { $exists: false }
+            }).sort({ startedAt: -1 });
+            if (!active) return { awards, session: null };
+
+            let session: IGameSession = active;
+
+            let settled = false;
+            while (!session.endedAt) {
+                const result = await this.settlePrize(roomCode, session, settings);
+                if (!result) break;
+
+                awards.push(result.award);
+                session = result.session;
+                settled = true;
             }
-            return null;
+
+            return { awards, session: settled ? session : null };
         } catch (error) {
             console.error('Check auto winner error:', error);
-            return null;
+            return { awards, session: null };
         }
     }
 }
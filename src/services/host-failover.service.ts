@@ -0,0 +1,117 @@
+import redis from '../lib/redis';
+import type { IRoom } from '../models';
+import { RoomService } from './room.service';
+import { PresenceService } from './presence.service';
+
+// Hands host control to a connected co-host when the host has been disconnected
+// for HOST_FAILOVER_SECONDS (0 turns it off). Deadlines live in a redis sorted set
+// polled by every instance, so a host who reconnects to any instance cancels it,
+// and removing the due entry is what lets exactly one instance act on it.
+
+type HostTransferred = (room: IRoom, fromId: string) => Promise<void>;
+
+function secondsFromEnv(value: string | undefined, fallback: number): number {
+    const seconds = value === undefined || value === '' ? fallback : Number(value);
+    return (Number.isFinite(seconds) && seconds >= 0 ? seconds : fallback) * 1000;
+}
+
+export class HostFailoverService {
+    private static DEADLINES_KEY = 'failover:deadlines';
+    private static HOSTS_KEY = 'failover:hosts'; // room code -> id of the host who dropped
+    private static FAILOVER_MS = secondsFromEnv(process.env.HOST_FAILOVER_SECONDS, 60);
+    // No co-host was connected when the host timed out; look again this often
+    private static RETRY_MS = 10 * 1000;
+    private static POLL_MS = 1000;
+
+    private static timer: NodeJS.Timeout | null = null;
+    private static onTransfer: HostTransferred | null = null;
+
+    /**
+     * Start polling for hosts whose deadline passed. `onTransfer` tells the room
+     * about its new host.
+     */
+    static init(onTransfer: HostTransferred): void {
+        this.onTransfer = onTransfer;
+        if (this.timer || this.FAILOVER_MS === 0) return;
+
+        this.timer = setInterval(() => {
+            this.poll().catch(err => console.error('Host failover poll error:', err));
+        }, this.POLL_MS);
+    }
+
+    static shutdown(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * The host's socket dropped; start counting
+     */
+    static async schedule(roomCode: string, hostId: string): Promise<void> {
+        if (this.FAILOVER_MS === 0) return;
+        const code = roomCode.toUpperCase();
+
+        await Promise.all([
+            redis.hset(this.HOSTS_KEY, code, hostId),
+            redis.zadd(this.DEADLINES_KEY, Date.now() + this.FAILOVER_MS, code),
+        ]);
+    }
+
+    /**
+     * The host is back (or the room is gone)
+     */
+    static async cancel(roomCode: string): Promise<void> {
+        const code = roomCode.toUpperCase();
+
+        await Promise.all([
+            redis.zrem(this.DEADLINES_KEY, code),
+            redis.hdel(this.HOSTS_KEY, code),
+        ]);
+    }
+
+    private static async poll(): Promise<void> {
+        const due = await redis.zrangebyscore(this.DEADLINES_KEY, 0, Date.now());
+        await Promise.all(due.map(code => this.expire(code)));
+    }
+
+    private static async expire(code: string): Promise<void> {
+        // Another instance took it first
+        if ((await redis.zrem(this.DEADLINES_KEY, code)) === 0) return;
+
+        try {
+            const hostId = await redis.hget(this.HOSTS_KEY, code);
+            if (!hostId || !(await this.attempt(code, hostId))) {
+                await redis.hdel(this.HOSTS_KEY, code);
+                return;
+            }
+            // Nobody to take over yet; unless a cancel came in meanwhile, look again later
+            if (await redis.hexists(this.HOSTS_KEY, code)) {
+                await redis.zadd(this.DEADLINES_KEY, Date.now() + this.RETRY_MS, code);
+            }
+        } catch (err) {
+            console.error(`Host failover error room ${code}:`, err);
+            await redis.hdel(this.HOSTS_KEY, code);
+        }
+    }
+
+    /**
+     * Returns true to try again later, when no co-host is connected
+     */
+    private static async attempt(code: string, hostId: string): Promise<boolean> {
+        const room = await RoomService.getRoom(code);
+        if (!room || room.closedAt || room.hostId !== hostId) return false;
+        // Reconnected without a rejoin reaching us, or the cancel lost a race: still the host
+        if (await PresenceService.getConnection(code, hostId)) return false;
+
+        // Co-hosts in the order they were appointed, first connected one takes over
+        for (const coHost of room.coHosts ?? []) {
+            const socketId = await PresenceService.getConnection(code, coHost.oderId);
+            if (!socketId) continue;
+
+            const updated = await RoomService.transferHost(code, hostId, coHost.oderId, socketId);
+            if (updated) await this.onTransfer?.(updated, hostId);
+            return false;
+        }
+        return true;
+    }
+}
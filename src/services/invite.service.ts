@@ -0,0 +1,46 @@
+import { randomBytes } from 'crypto';
+import redis from '../lib/redis';
+import type { RoomInvite } from '../lib/game-types';
+
+// Invite links: a random token per link, kept in redis until it expires. Each join
+// through it uses it up once; a used up or expired link admits nobody.
+
+// KEYS: the invite. Returns 1 and counts the use if one is left, 0 if not.
+const REDEEM_SCRIPT = `
+local invite = redis.call('hmget', KEYS[1], 'uses', 'maxUses')
+if not invite[2] then
+    return 0
+end
+if tonumber(invite[1]) >= tonumber(invite[2]) then
+    return 0
+end
+redis.call('hincrby', KEYS[1], 'uses', 1)
+return 1`;
+
+export class InviteService {
+    private static PREFIX = 'invite:';
+
+    /**
+     * New invite link for a room
+     */
+    static async create(roomCode: string, maxUses: number, expiresInMinutes: number): Promise<RoomInvite> {
+        const token = randomBytes(12).toString('base64url');
+        const ttl = expiresInMinutes * 60 * 1000;
+        const key = this.key(roomCode, token);
+
+        await redis.hset(key, 'uses', 0, 'maxUses', maxUses);
+        await redis.pexpire(key, ttl);
+        return { token, maxUses, uses: 0, expiresAt: new Date(Date.now() + ttl) };
+    }
+
+    /**
+     * Use an invite to join; false if it is unknown, expired or used up
+     */
+    static async redeem(roomCode: string, token: string): Promise<boolean> {
+        return Number(await redis.eval(REDEEM_SCRIPT, 1, this.key(roomCode, token))) === 1;
+    }
+
+    private static key(roomCode: string, token: string): string {
+        return `${this.PREFIX}${roomCode.toUpperCase()}:${token}`;
+    }
+}
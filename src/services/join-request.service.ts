@@ -0,0 +1,84 @@
+import { randomBytes } from 'crypto';
+import redis from '../lib/redis';
+import type { JoinRequest } from '../lib/game-types';
+
+// The approval queue of a room: players who got past the password and wait for the
+// host (or a co-host who may kick) to let them in. One redis hash per room, so any
+// instance can answer a request; the waiting socket is reached through the adapter.
+
+export interface PendingJoin {
+    requestId: string;
+    nickname: string;
+    socketId: string;
+    deviceId?: string;
+    spectator?: boolean;
+    requestedAt: number; // epoch ms
+}
+
+export class JoinRequestService {
+    private static PREFIX = 'join:requests:';
+    // Forgotten with the room cache; nobody waits this long
+    private static TTL_SECONDS = 3600;
+
+    /**
+     * Queue a player; returns the request id
+     */
+    static async add(
+        roomCode: string,
+        nickname: string,
+        socketId: string,
+        deviceId?: string,
+        spectator = false
+    ): Promise<string> {
+        const key = this.key(roomCode);
+        const request: PendingJoin = {
+            requestId: randomBytes(8).toString('hex'),
+            nickname,
+            socketId,
+            deviceId,
+            spectator,
+            requestedAt: Date.now(),
+        };
+
+        await redis.hset(key, request.requestId, JSON.stringify(request));
+        await redis.expire(key, this.TTL_SECONDS);
+        return request.requestId;
+    }
+
+    /**
+     * Oldest first
+     */
+    static async list(roomCode: string): Promise<PendingJoin[]> {
+        const entries = await redis.hvals(this.key(roomCode));
+        return entries
+            .map(entry => JSON.parse(entry) as PendingJoin)
+            .sort((a, b) => a.requestedAt - b.requestedAt);
+    }
+
+    /**
+     * Remove a request and return it; null if someone else already answered it
+     */
+    static async take(roomCode: string, requestId: string): Promise<PendingJoin | null> {
+        const key = this.key(roomCode);
+        const entry = await redis.hget(key, requestId);
+        // hdel decides between two moderators answering at once
+        if (!entry || (await redis.hdel(key, requestId)) === 0) return null;
+        return JSON.parse(entry) as PendingJoin;
+    }
+
+    /**
+     * A request as shown to moderators: no socket or device ids
+     */
+    static toJoinRequest(request: PendingJoin): JoinRequest {
+        return {
+            requestId: request.requestId,
+            nickname: request.nickname,
+            spectator: request.spectator ?? false,
+            requestedAt: new Date(request.requestedAt),
+        };
+    }
+
+    private static key(roomCode: string): string {
+        return `${this.PREFIX}${roomCode.toUpperCase()}`;
+    }
+}
@@ -0,0 +1,79 @@
+import { GameSession, Room, type IRoom } from '../models';
+import redis from '../lib/redis';
+import type { LobbyRoom } from '../lib/game-types';
+
+// The public lobby: open rooms with visibility 'public', pushed to everyone on the
+// /lobby namespace. A change to a listed room schedules one refresh per instance at
+// most every REFRESH_MS, so a busy room does not query Mongo on every join.
+
+type PublishRooms = (rooms: LobbyRoom[]) => void;
+
+export class LobbyService {
+    private static CACHE_KEY = 'lobby:rooms';
+    private static CACHE_SECONDS = 5;
+    private static MAX_ROOMS = 100;
+    private static REFRESH_MS = 2000;
+
+    private static refreshTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Listed rooms, newest first; cached briefly for lobby visitors arriving together
+     */
+    static async getRooms(): Promise<LobbyRoom[]> {
+        const cached = await redis.get(this.CACHE_KEY);
+        if (cached) return JSON.parse(cached);
+        return this.loadRooms();
+    }
+
+    /**
+     * A public room changed (or stopped being listed); publish the listing soon
+     */
+    static scheduleRefresh(publish: PublishRooms): void {
+        if (this.refreshTimer) return;
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            this.loadRooms().then(publish).catch(err => {
+                console.error('Lobby refresh error:', err);
+            });
+        }, this.REFRESH_MS);
+    }
+
+    /**
+     * Whether a room is shown in the lobby
+     */
+    static isListed(room: IRoom): boolean {
+        return room.settings?.visibility === 'public';
+    }
+
+    private static async loadRooms(): Promise<LobbyRoom[]> {
+        const rooms = await Room.find({ 'settings.visibility': 'public', closedAt: { $exists: false } })
+            .sort({ createdAt: -1 })
+            .limit(this.MAX_ROOMS)
+            .lean();
+
+        const sessions = await GameSession.find({
+            roomCode: { $in: rooms.map(r => r.code) },
+            endedAt: { $exists: false },
+        }).select('roomCode startedAt').lean();
+        const startedAt = new Map(sessions.map(s => [s.roomCode, s.startedAt]));
+
+        const listing: LobbyRoom[] = rooms.map(room => ({
+            code: room.code,
+            hostName: room.players.find(p => p.oderId === room.hostId)?.nickname ?? 'Host',
+            playerCount: room.players.length,
+            maxPlayers: room.settings.maxPlayers,
+            spectatorCount: room.spectators?.length ?? 0,
+            status: room.status,
+            audioMode: room.settings.audioMode,
+            gameFormat: room.settings.gameFormat,
+            hasPassword: Boolean(room.passwordHash),
+            requireApproval: room.settings.requireApproval ?? false,
+            createdAt: room.createdAt,
+            startedAt: startedAt.get(room.code) ?? null,
+            scheduledStart: room.settings.scheduledStart ?? null,
+        }));
+
+        await redis.setex(this.CACHE_KEY, this.CACHE_SECONDS, JSON.stringify(listing));
+        return listing;
+    }
+}
@@ -0,0 +1,129 @@
+import redis from '../lib/redis';
+import type { PresenceStatus } from '../lib/game-types';
+
+// Who is connected to each room, shared by every instance through redis.
+// A dropped socket is 'away' for a grace period so reloads and flaky networks
+// don't flap the host's player list; only then is the player 'offline'.
+// No TTL on a room's hash, since a long game may go without writes: it lives as long as the
+// room and is deleted when the room is closed or archived.
+interface PresenceEntry {
+    status: PresenceStatus;
+    socketId: string;
+    since: number; // epoch ms of the last status change
+    disconnected?: boolean; // the socket dropped; 'away' can also just be a hidden tab
+}
+
+type PresenceChanged = (roomCode: string, oderId: string, status: PresenceStatus) => void;
+
+export class PresenceService {
+    private static PRESENCE_PREFIX = 'presence:';
+    private static GRACE_MS = 30 * 1000;
+
+    private static graceTimers = new Map<string, NodeJS.Timeout>();
+
+    /**
+     * A socket joined or rejoined the room as this player
+     */
+    static async connect(roomCode: string, oderId: string, socketId: string): Promise<void> {
+        const code = roomCode.toUpperCase();
+        this.clearGrace(code, oderId);
+        await this.write(code, oderId, { status: 'online', socketId, since: Date.now() });
+    }
+
+    /**
+     * Player-reported visibility (tab hidden / shown). Ignored for sockets that were replaced.
+     * Returns false when nothing changed.
+     */
+    static async report(roomCode: string, oderId: string, socketId: string, status: 'online' | 'away'): Promise<boolean> {
+        const code = roomCode.toUpperCase();
+        const current = await this.read(code, oderId);
+        if (!current || current.socketId !== socketId || current.disconnected || current.status === status) return false;
+
+        await this.write(code, oderId, { status, socketId, since: Date.now() });
+        return true;
+    }
+
+    /**
+     * A socket dropped. The player is away now and offline after the grace period,
+     * unless they reconnect (from any socket or instance) in the meantime.
+     */
+    static async disconnect(
+        roomCode: string,
+        oderId: string,
+        socketId: string,
+        onChange: PresenceChanged
+    ): Promise<void> {
+        const code = roomCode.toUpperCase();
+        const current = await this.read(code, oderId);
+        // A newer socket already took over (reload, second tab)
+        if (!current || current.socketId !== socketId) return;
+
+        await this.write(code, oderId, { status: 'away', socketId, since: Date.now(), disconnected: true });
+        onChange(code, oderId, 'away');
+
+        // The timer re-checks redis: the player may have reconnected through another instance
+        this.clearGrace(code, oderId);
+        this.graceTimers.set(`${code}:${oderId}`, setTimeout(async () => {
+            this.graceTimers.delete(`${code}:${oderId}`);
+            try {
+                const latest = await this.read(code, oderId);
+                if (!latest || latest.socketId !== socketId) return;
+
+                await this.write(code, oderId, { status: 'offline', socketId, since: Date.now(), disconnected: true });
+                onChange(code, oderId, 'offline');
+            } catch (err) {
+                console.error(`Presence grace error room ${code}:`, err);
+            }
+        }, this.GRACE_MS));
+    }
+
+    /**
+     * Forget a player who left the room
+     */
+    static async remove(roomCode: string, oderId: string): Promise<void> {
+        this.clearGrace(roomCode.toUpperCase(), oderId);
+        await redis.hdel(`${this.PRESENCE_PREFIX}${roomCode.toUpperCase()}`, oderId);
+    }
+
+    /**
+     * Forget a whole room (closed or archived)
+     */
+    static async clear(roomCode: string): Promise<void> {
+        await redis.del(`${this.PRESENCE_PREFIX}${roomCode.toUpperCase()}`);
+    }
+
+    /**
+     * Status of every player seen in the room; players never seen are missing
+     */
+    static async getRoomPresence(roomCode: string): Promise<Record<string, PresenceStatus>> {
+        const raw = await redis.hgetall(`${this.PRESENCE_PREFIX}${roomCode.toUpperCase()}`);
+        const presence: Record<string, PresenceStatus> = {};
+        for (const [oderId, value] of Object.entries(raw)) {
+            presence[oderId] = (JSON.parse(value) as PresenceEntry).status;
+        }
+        return presence;
+    }
+
+    /**
+     * Socket the player is connected from, or null if they are not connected
+     */
+    static async getConnection(roomCode: string, oderId: string): Promise<string | null> {
+        const entry = await this.read(roomCode.toUpperCase(), oderId);
+        return entry && !entry.disconnected ? entry.socketId : null;
+    }
+
+    private static async read(code: string, oderId: string): Promise<PresenceEntry | null> {
+        const raw = await redis.hget(`${this.PRESENCE_PREFIX}${code}`, oderId);
+        return raw ? JSON.parse(raw) : null;
+    }
+
+    private static async write(code: string, oderId: string, entry: PresenceEntry): Promise<void> {
+        await redis.hset(`${this.PRESENCE_PREFIX}${code}`, oderId, JSON.stringify(entry));
+    }
+
+    private static clearGrace(code: string, oderId: string): void {
+        const timer = this.graceTimers.get(`${code}:${oderId}`);
+        if (timer) clearTimeout(timer);
+        this.graceTimers.delete(`${code}:${oderId}`);
+    }
+}
@@ -0,0 +1,144 @@
+import redis from '../lib/redis';
+import type { SocketEventName } from '../lib/validation';
+
+// Token buckets for client events, kept in redis so every instance draws from the
+// same budget. An event may be limited per socket, per player and per room; it goes
+// through only if every one of its buckets has a token.
+// False kinh calls are handled separately: each one within the strike window makes
+// the player wait longer before they may call again.
+
+type LimitScope = 'socket' | 'player' | 'room';
+
+interface Bucket {
+    capacity: number; // burst size
+    perSecond: number; // refill rate
+}
+
+type EventLimits = Partial<Record<LimitScope, Bucket>>;
+
+export interface RateLimitSubject {
+    socketId: string;
+    roomCode?: string;
+    oderId?: string;
+}
+
+// Events missing here only get DEFAULT_LIMITS
+const EVENT_LIMITS: Partial<Record<SocketEventName, EventLimits>> = {
+    'room:create': { socket: { capacity: 3, perSecond: 1 / 20 } },
+    'room:join': { socket: { capacity: 5, perSecond: 1 / 5 } },
+    'room:spectate': { socket: { capacity: 5, perSecond: 1 / 5 } },
+    'room:rejoin': { socket: { capacity: 5, perSecond: 1 / 5 } },
+    'game:spin': { room: { capacity: 5, perSecond: 2 } },
+    'host:validate-ticket': { player: { capacity: 10, perSecond: 2 } },
+    'host:validate-numbers': { player: { capacity: 10, perSecond: 2 } },
+    'host:create-invite': { player: { capacity: 5, perSecond: 1 / 10 } },
+    'player:create-tickets': { player: { capacity: 5, perSecond: 1 / 5 } },
+    // Each mark is a Mongo write with retries
+    'player:mark-number': {
+        socket: { capacity: 20, perSecond: 5 },
+        player: { capacity: 30, perSecond: 5 },
+    },
+    // A kinh stops auto-call for the whole room
+    'player:call-kinh': {
+        player: { capacity: 3, perSecond: 1 / 10 },
+        room: { capacity: 10, perSecond: 1 },
+    },
+    'player:presence': { socket: { capacity: 10, perSecond: 1 } },
+    // Shown to everyone in the room
+    'player:react': {
+        player: { capacity: 5, perSecond: 1 },
+        room: { capacity: 30, perSecond: 10 },
+    },
+};
+
+const DEFAULT_LIMITS: EventLimits = { socket: { capacity: 30, perSecond: 10 } };
+
+// KEYS: one bucket per scope. ARGV: capacity and tokens per ms of each bucket, in KEYS order.
+// Takes a token from every bucket or from none; returns 0, or ms until all have one.
+const TAKE_TOKEN_SCRIPT = `
+local time = redis.call('time')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local levels = {}
+local wait = 0
+for i, key in ipairs(KEYS) do
+    local capacity = tonumber(ARGV[i * 2 - 1])
+    local rate = tonumber(ARGV[i * 2])
+    local bucket = redis.call('hmget', key, 'tokens', 'ts')
+    local tokens = tonumber(bucket[1]) or capacity
+    local ts = tonumber(bucket[2]) or now
+    tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+    if tokens < 1 then
+        wait = math.max(wait, math.ceil((1 - tokens) / rate))
+    end
+    levels[i] = tokens
+end
+if wait > 0 then
+    return wait
+end
+for i, key in ipairs(KEYS) do
+    local capacity = tonumber(ARGV[i * 2 - 1])
+    local rate = tonumber(ARGV[i * 2])
+    redis.call('hset', key, 'tokens', tostring(levels[i] - 1), 'ts', now)
+    redis.call('pexpire', key, math.ceil(capacity / rate))
+end
+return 0`;
+
+export class RateLimitService {
+    private static BUCKET_PREFIX = 'ratelimit:';
+    private static STRIKES_PREFIX = 'kinh:strikes:';
+    private static COOLDOWN_PREFIX = 'kinh:cooldown:';
+    // Strikes are forgotten after this long without a false call
+    private static STRIKE_WINDOW_MS = 60 * 60 * 1000;
+    // First false call waits this long, doubling with each strike up to the cap
+    private static KINH_COOLDOWN_BASE_MS = 15 * 1000;
+    private static KINH_COOLDOWN_MAX_MS = 5 * 60 * 1000;
+
+    /**
+     * Take a token for one event. Returns 0 when allowed, otherwise ms to wait.
+     * Player and room buckets apply once the socket has joined a room.
+     */
+    static async consume(event: SocketEventName, subject: RateLimitSubject): Promise<number> {
+        const limits = EVENT_LIMITS[event] ?? DEFAULT_LIMITS;
+        const code = subject.roomCode?.toUpperCase();
+        const ids: Record<LimitScope, string | null> = {
+            socket: subject.socketId,
+            player: code && subject.oderId ? `${code}:${subject.oderId}` : null,
+            room: code ?? null,
+        };
+
+        const keys: string[] = [];
+        const args: number[] = [];
+        for (const [scope, bucket] of Object.entries(limits) as [LimitScope, Bucket][]) {
+            const id = ids[scope];
+            if (!id) continue;
+            keys.push(`${this.BUCKET_PREFIX}${scope}:${id}:${event}`);
+            args.push(bucket.capacity, bucket.perSecond / 1000);
+        }
+        if (keys.length === 0) return 0;
+
+        return Number(await redis.eval(TAKE_TOKEN_SCRIPT, keys.length, ...keys, ...args));
+    }
+
+    /**
+     * Ms the player must still wait before calling kinh again, 0 if they may
+     */
+    static async getKinhCooldown(roomCode: string, oderId: string): Promise<number> {
+        const ttl = await redis.pttl(`${this.COOLDOWN_PREFIX}${roomCode.toUpperCase()}:${oderId}`);
+        return Math.max(0, ttl);
+    }
+
+    /**
+     * A kinh call that did not win. Returns the cooldown it earned in ms.
+     */
+    static async recordFalseKinh(roomCode: string, oderId: string): Promise<number> {
+        const code = roomCode.toUpperCase();
+        const strikesKey = `${this.STRIKES_PREFIX}${code}:${oderId}`;
+
+        const strikes = await redis.incr(strikesKey);
+        await redis.pexpire(strikesKey, this.STRIKE_WINDOW_MS);
+
+        const cooldown = Math.min(this.KINH_COOLDOWN_BASE_MS * 2 ** (strikes - 1), this.KINH_COOLDOWN_MAX_MS);
+        await redis.set(`${this.COOLDOWN_PREFIX}${code}:${oderId}`, String(strikes), 'PX', cooldown);
+        return cooldown;
+    }
+}
@@ -0,0 +1,118 @@
+import { GameSession, Player, Room, RoomArchive, Ticket } from '../models';
+import redis from '../lib/redis';
+import { AutoCallService } from './auto-call.service';
+import { PresenceService } from './presence.service';
+
+// Periodic sweep that closes idle rooms and archives closed ones.
+// Every instance runs the timer; a short redis lock lets one of them sweep.
+
+type RoomExpired = (roomCode: string) => Promise<void>;
+
+function minutesFromEnv(value: string | undefined, fallback: number): number {
+    const minutes = Number(value);
+    return (Number.isFinite(minutes) && minutes > 0 ? minutes : fallback) * 60 * 1000;
+}
+
+export class RoomLifecycleService {
+    private static SWEEP_LOCK_KEY = 'lifecycle:sweep';
+    private static SWEEP_INTERVAL_MS = 60 * 1000;
+    // Rooms with no joins, games or calls for this long are closed
+    private static IDLE_TTL_MS = minutesFromEnv(process.env.ROOM_IDLE_TTL_MINUTES, 120);
+    // Closed rooms stay readable (results, draw verification) this long before archival
+    private static ARCHIVE_DELAY_MS = minutesFromEnv(process.env.ROOM_ARCHIVE_DELAY_MINUTES, 60);
+
+    private static timer: NodeJS.Timeout | null = null;
+    private static onExpire: RoomExpired | null = null;
+
+    /**
+     * Start sweeping. `onExpire` closes an idle room the same way a host would,
+     * so connected clients are told.
+     */
+    static init(onExpire: RoomExpired): void {
+        this.onExpire = onExpire;
+        if (this.timer) return;
+
+        this.timer = setInterval(() => {
+            this.sweep().catch(err => console.error('Room sweep error:', err));
+        }, this.SWEEP_INTERVAL_MS);
+    }
+
+    static shutdown(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    static async sweep(): Promise<void> {
+        const locked = await redis.set(this.SWEEP_LOCK_KEY, '1', 'PX', this.SWEEP_INTERVAL_MS, 'NX');
+        if (!locked) return;
+
+        await this.expireIdleRooms();
+        await this.archiveClosedRooms();
+    }
+
+    private static async expireIdleRooms(): Promise<void> {
+        const cutoff = new Date(Date.now() - this.IDLE_TTL_MS);
+        // updatedAt covers joins, leaves and status changes; calls only touch the session
+        const rooms = await Room.find({ closedAt: { $exists: false }, updatedAt: { $lt: cutoff } });
+
+        for (const room of rooms) {
+            // Created ahead of a scheduled show: idle from the scheduled time on
+            if (room.settings.scheduledStart && room.settings.scheduledStart > cutoff.getTime()) continue;
+
+            const session = await GameSession.findOne({
+                roomCode: room.code,
+                endedAt: { $exists: false }
+            }).sort({ startedAt: -1 });
+            const lastCall = session?.calledNumbers[session.calledNumbers.length - 1]?.calledAt ?? session?.startedAt;
+            if (lastCall && lastCall > cutoff) continue;
+
+            console.log(`⌛ Room ${room.code} expired after being idle`);
+            await this.onExpire?.(room.code);
+        }
+    }
+
+    private static async archiveClosedRooms(): Promise<void> {
+        const cutoff = new Date(Date.now() - this.ARCHIVE_DELAY_MS);
+        const rooms = await Room.find({ closedAt: { $lt: cutoff } });
+
+        for (const room of rooms) {
+            await this.archiveRoom(room.code);
+        }
+    }
+
+    /**
+     * Move a room with its sessions, tickets and players into the archive
+     */
+    static async archiveRoom(roomCode: string): Promise<void> {
+        const code = roomCode.toUpperCase();
+        const [room, sessions, tickets, players] = await Promise.all([
+            Room.findOne({ code }),
+            GameSession.find({ roomCode: code }).select('+seed'),
+            Ticket.find({ roomCode: code }),
+            Player.find({ roomCode: code }),
+        ]);
+        if (!room) return;
+
+        await RoomArchive.create({
+            code,
+            room: room.toObject(),
+            // toObject keeps the seed (toJSON drops it) so archived draws stay verifiable
+            sessions: sessions.map(s => s.toObject()),
+            tickets: tickets.map(t => t.toObject()),
+            players: players.map(p => p.toObject()),
+            closedAt: room.closedAt,
+        });
+
+        await Promise.all([
+            Room.deleteOne({ code }),
+            GameSession.deleteMany({ roomCode: code }),
+            Ticket.deleteMany({ roomCode: code }),
+            Player.deleteMany({ roomCode: code }),
+            redis.del(`room:${code}`, `session:${code}`),
+            AutoCallService.disable(code),
+            PresenceService.clear(code),
+        ]);
+
+        console.log(`📦 Room ${code} archived (${sessions.length} sessions, ${tickets.length} tickets)`);
+    }
+}
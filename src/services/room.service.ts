@@ -1,22 +1,39 @@
-import { Room, Player, IRoom, IPlayer } from '../models';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Room, Player, IRoom, IPlayer, IRoomBan } from '../models';
 import redis from '../lib/redis';
 import { ValidatedRoomSettings } from '../lib/validation';
+import { CO_HOST_PERMISSIONS, isBanned } from '../lib/roles';
+import type { EditableRoomSettings } from '../lib/room-settings';
+import { GameError } from '../lib/errors';
+import type { CoHostPermission, Player as PlayerView, Room as RoomView } from '../lib/game-types';
+import type { JoinCredentials, RoomAccess } from '../lib/socket-events';
+import { InviteService } from './invite.service';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// How a player gets in: with credentials, or admitted by the host from the approval queue
+type JoinAccess = JoinCredentials & { approved?: boolean };
 
 export class RoomService {
     private static ROOM_CACHE_PREFIX = 'room:';
+    // Spectators do not take seats, but the room document still has to hold them
+    private static MAX_SPECTATORS = 200;
 
-    static async createRoom(hostNickname: string, settings: ValidatedRoomSettings): Promise<{ room: IRoom; player: IPlayer }> {
+    static async createRoom(hostNickname: string, settings: ValidatedRoomSettings, socketId?: string): Promise<{ room: IRoom; player: IPlayer }> {
         const code = this.generateRoomCode();
         const oderId = this.generateId();
 
         const room = new Room({
             code,
             hostId: oderId,
+            hostSocketId: socketId,
             status: 'waiting',
             settings,
             players: [{
                 oderId,
                 nickname: hostNickname,
+                socketId,
                 roomCode: code,
                 isHost: true,
                 joinedAt: new Date()
@@ -26,6 +43,7 @@ export class RoomService {
         const player = new Player({
             oderId,
             nickname: hostNickname,
+            socketId,
             roomCode: code,
             isHost: true,
         });
@@ -45,6 +63,7 @@ export class RoomService {
         if (cached) {
             const room = JSON.parse(cached);
             if (!room.players) room.players = [];
+            if (!room.spectators) room.spectators = [];
             return room;
         }
 
@@ -55,42 +74,369 @@ export class RoomService {
         return room;
     }
 
-    static async joinRoom(code: string, nickname: string): Promise<{ room: IRoom; player: IPlayer }> {
+    static async setCallSpeed(code: string, callSpeed: number): Promise<IRoom | null> {
+        const room = await Room.findOneAndUpdate(
+            { code: code.toUpperCase() },
+            { 'settings.callSpeed': callSpeed },
+            { new: true }
+        );
+        if (room) await this.cacheRoom(room);
+        return room;
+    }
+
+    /**
+     * Write changed settings; the host checks what may change in the room's state
+     */
+    static async updateSettings(code: string, changes: Partial<EditableRoomSettings>): Promise<IRoom | null> {
+        const $set: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(changes)) $set[`settings.${key}`] = value;
+
+        const room = await Room.findOneAndUpdate(
+            { code: code.toUpperCase(), closedAt: { $exists: false } },
+            { $set },
+            { new: true }
+        );
+        if (room) await this.cacheRoom(room);
+        return room;
+    }
+
+    /**
+     * Join as a player, or as a spectator watching read-only. Spectators pass the same
+     * password, invite and approval checks but do not take one of the maxPlayers seats.
+     */
+    static async joinRoom(
+        code: string,
+        nickname: string,
+        socketId?: string,
+        deviceId?: string,
+        access: JoinAccess = {},
+        spectator = false
+    ): Promise<{ room: IRoom; player: IPlayer }> {
         // Fetch directly from DB to ensure we get a Mongoose document (not just a cached POJO)
         const room = await Room.findOne({ code: code.toUpperCase() });
-        if (!room) throw new Error('Room not found');
+        if (!room) throw new GameError('ROOM_NOT_FOUND');
+        if (room.closedAt) throw new GameError('ROOM_CLOSED');
+        if (isBanned(room, null, deviceId)) throw new GameError('BANNED');
 
-        const playerCount = await Player.countDocuments({ roomCode: code.toUpperCase() });
-        if (playerCount >= room.settings.maxPlayers) throw new Error('Room is full');
+        if (spectator) {
+            if (room.spectators.length >= this.MAX_SPECTATORS) throw new GameError('ROOM_FULL');
+        } else if (await this.countPlayers(room.code) >= room.settings.maxPlayers) {
+            throw new GameError('ROOM_FULL');
+        }
+
+        // Last, so a full room or a bad password does not use up the invite
+        if (!access.approved && !(access.invite && await InviteService.redeem(room.code, access.invite))) {
+            if (access.invite) throw new GameError('INVITE_INVALID');
+            if (room.passwordHash) {
+                if (!access.password) throw new GameError('PASSWORD_REQUIRED');
+                if (!(await this.checkPassword(access.password, room.passwordHash))) throw new GameError('WRONG_PASSWORD');
+            }
+            if (room.settings.requireApproval) throw new GameError('AWAITING_APPROVAL');
+        }
 
         const oderId = this.generateId();
         const player = new Player({
             oderId,
             nickname,
+            socketId,
             roomCode: code.toUpperCase(),
             isHost: false,
+            spectator,
+            deviceId,
         });
 
         await player.save();
 
         // Update room players array
-        room.players.push(player.toObject());
+        if (spectator) room.spectators.push(player.toObject());
+        else room.players.push(player.toObject());
         await room.save();
         await this.cacheRoom(room);
 
         return { room, player };
     }
 
+    /**
+     * Give a spectator a seat. Only before the game starts, and only if one is free.
+     */
+    static async becomePlayer(code: string, oderId: string): Promise<{ room: IRoom; player: IPlayer }> {
+        const roomCode = code.toUpperCase();
+        const room = await Room.findOne({ code: roomCode });
+        if (!room) throw new GameError('ROOM_NOT_FOUND');
+        if (room.closedAt) throw new GameError('ROOM_CLOSED');
+        if (!room.spectators.some(s => s.oderId === oderId)) throw new GameError('PLAYER_NOT_FOUND');
+        if (room.status !== 'waiting') throw new GameError('GAME_IN_PROGRESS');
+        if (await this.countPlayers(roomCode) >= room.settings.maxPlayers) throw new GameError('ROOM_FULL');
+
+        const player = await Player.findOneAndUpdate({ roomCode, oderId }, { spectator: false }, { new: true });
+        if (!player) throw new GameError('PLAYER_NOT_FOUND');
+
+        // status in the filter: the game may have started since the room was read
+        const updated = await Room.findOneAndUpdate(
+            { code: roomCode, status: 'waiting', 'spectators.oderId': oderId },
+            { $pull: { spectators: { oderId } }, $push: { players: player.toObject() } },
+            { new: true }
+        );
+        if (!updated) {
+            await Player.updateOne({ roomCode, oderId }, { spectator: true });
+            throw new GameError('GAME_IN_PROGRESS');
+        }
+
+        await this.cacheRoom(updated);
+        return { room: updated, player };
+    }
+
+    /**
+     * Set, move or (with null) clear the scheduled start; minPlayers is kept unless given
+     */
+    static async setSchedule(code: string, scheduledStart: number | null, minPlayers?: number): Promise<IRoom | null> {
+        const $set: Record<string, unknown> = { 'settings.scheduledStart': scheduledStart };
+        if (minPlayers !== undefined) $set['settings.minPlayers'] = minPlayers;
+
+        const room = await Room.findOneAndUpdate(
+            { code: code.toUpperCase(), closedAt: { $exists: false } },
+            { $set },
+            { new: true }
+        );
+        if (room) await this.cacheRoom(room);
+        return room;
+    }
+
+    /**
+     * Set or remove the room password and turn the approval queue on or off.
+     * Players already in the room stay.
+     */
+    static async setAccess(code: string, access: RoomAccess): Promise<IRoom | null> {
+        const $set: Record<string, unknown> = {};
+        const $unset: Record<string, 1> = {};
+        if (access.password) $set.passwordHash = await this.hashPassword(access.password);
+        if (access.password === null) $unset.passwordHash = 1;
+        if (access.requireApproval !== undefined) $set['settings.requireApproval'] = access.requireApproval;
+
+        const room = await Room.findOneAndUpdate(
+            { code: code.toUpperCase(), closedAt: { $exists: false } },
+            { $set, $unset },
+            { new: true }
+        );
+        if (room) await this.cacheRoom(room);
+        return room;
+    }
+
+    /**
+     * Record the socket a player is connected from (on rejoin / reconnect).
+     * Not a room activity, so it does not touch updatedAt and the idle timer.
+     */
+    static async setPlayerSocket(code: string, oderId: string, socketId: string): Promise<IRoom | null> {
+        const roomCode = code.toUpperCase();
+        const [room] = await Promise.all([
+            Room.findOneAndUpdate(
+                { code: roomCode, 'players.oderId': oderId },
+                { $set: { 'players.$.socketId': socketId } },
+                { new: true, timestamps: false }
+            ),
+            Player.updateOne({ roomCode, oderId }, { socketId }),
+        ]);
+        if (!room) return null;
+
+        if (room.hostId === oderId) {
+            await Room.updateOne({ code: roomCode }, { hostSocketId: socketId }, { timestamps: false });
+            room.hostSocketId = socketId;
+        }
+        await this.cacheRoom(room);
+        return room;
+    }
+
+    /**
+     * Make a player co-host with these permissions, change them, or (with none) demote them
+     */
+    static async setCoHost(code: string, oderId: string, permissions: CoHostPermission[]): Promise<IRoom | null> {
+        const roomCode = code.toUpperCase();
+        const room = await Room.findOne({ code: roomCode });
+        if (!room || room.hostId === oderId || !room.players.some(p => p.oderId === oderId)) return null;
+
+        const granted = CO_HOST_PERMISSIONS.filter(p => permissions.includes(p));
+        const coHosts = (room.coHosts ?? []).filter(c => c.oderId !== oderId);
+        if (granted.length > 0) coHosts.push({ oderId, permissions: granted });
+
+        const updated = await Room.findOneAndUpdate({ code: roomCode }, { coHosts }, { new: true });
+        if (updated) await this.cacheRoom(updated);
+        return updated;
+    }
+
+    /**
+     * Hand host control to a co-host; the previous host stays on as a co-host with
+     * every permission. Returns null if `fromId` is no longer the host.
+     */
+    static async transferHost(code: string, fromId: string, toId: string, toSocketId?: string): Promise<IRoom | null> {
+        const roomCode = code.toUpperCase();
+        const room = await Room.findOne({ code: roomCode, hostId: fromId });
+        if (!room || !room.players.some(p => p.oderId === toId)) return null;
+
+        const coHosts = [
+            ...(room.coHosts ?? []).filter(c => c.oderId !== toId && c.oderId !== fromId),
+            { oderId: fromId, permissions: CO_HOST_PERMISSIONS },
+        ];
+
+        // hostId in the filter: two instances failing over at once must not both win
+        const updated = await Room.findOneAndUpdate(
+            { code: roomCode, hostId: fromId },
+            {
+                $set: {
+                    hostId: toId,
+                    hostSocketId: toSocketId,
+                    coHosts,
+                    'players.$[prev].isHost': false,
+                    'players.$[next].isHost': true,
+                },
+            },
+            { new: true, arrayFilters: [{ 'prev.oderId': fromId }, { 'next.oderId': toId }] }
+        );
+        if (!updated) return null;
+
+        await Promise.all([
+            Player.updateOne({ roomCode, oderId: fromId }, { isHost: false }),
+            Player.updateOne({ roomCode, oderId: toId }, { isHost: true }),
+            this.cacheRoom(updated),
+        ]);
+        return updated;
+    }
+
+    /**
+     * Remove a player from the room. Their tickets stay with the room until it is archived.
+     */
+    static async leaveRoom(code: string, oderId: string): Promise<IRoom | null> {
+        const roomCode = code.toUpperCase();
+        const [room] = await Promise.all([
+            Room.findOneAndUpdate(
+                { code: roomCode },
+                { $pull: { players: { oderId }, spectators: { oderId }, coHosts: { oderId }, muted: oderId } },
+                { new: true }
+            ),
+            Player.deleteOne({ roomCode, oderId }),
+        ]);
+        if (room) await this.cacheRoom(room);
+        return room;
+    }
+
+    /**
+     * Remove a player and keep them, and the device they joined from, out for the room's life
+     */
+    static async banPlayer(code: string, oderId: string, bannedBy: string): Promise<IRoom | null> {
+        const roomCode = code.toUpperCase();
+        const player = await Player.findOne({ roomCode, oderId });
+        if (!player) return null;
+
+        const ban: IRoomBan = {
+            oderId,
+            nickname: player.nickname,
+            deviceId: player.deviceId,
+            bannedBy,
+            bannedAt: new Date(),
+        };
+        const [room] = await Promise.all([
+            Room.findOneAndUpdate(
+                { code: roomCode },
+                { $pull: { players: { oderId }, spectators: { oderId }, coHosts: { oderId }, muted: oderId }, $push: { bans: ban } },
+                { new: true }
+            ),
+            Player.deleteOne({ roomCode, oderId }),
+        ]);
+        if (room) await this.cacheRoom(room);
+        return room;
+    }
+
+    /**
+     * Mute or unmute a player of the room. Returns null if they are not in it.
+     */
+    static async setMuted(code: string, oderId: string, muted: boolean): Promise<IRoom | null> {
+        const room = await Room.findOneAndUpdate(
+            { code: code.toUpperCase(), 'players.oderId': oderId },
+            muted ? { $addToSet: { muted: oderId } } : { $pull: { muted: oderId } },
+            { new: true }
+        );
+        if (room) await this.cacheRoom(room);
+        return room;
+    }
+
+    /**
+     * Close a room for good: no more joins or games. Returns null if it was already closed.
+     */
+    static async closeRoom(code: string): Promise<IRoom | null> {
+        const room = await Room.findOneAndUpdate(
+            { code: code.toUpperCase(), closedAt: { $exists: false } },
+            { status: 'finished', closedAt: new Date() },
+            { new: true }
+        );
+        await redis.del(`${this.ROOM_CACHE_PREFIX}${code.toUpperCase()}`);
+        return room;
+    }
+
+    /**
+     * A room as sent to clients: no socket ids or Mongo internals
+     */
+    static toRoom(room: IRoom): RoomView {
+        const plain: IRoom = typeof room.toObject === 'function' ? room.toObject() : room;
+        return {
+            id: String(plain._id),
+            code: plain.code,
+            hostId: plain.hostId,
+            coHosts: plain.coHosts ?? [],
+            muted: plain.muted ?? [],
+            hasPassword: Boolean(plain.passwordHash),
+            players: (plain.players ?? []).map(p => this.toPlayer(p)),
+            spectators: (plain.spectators ?? []).map(p => this.toPlayer(p)),
+            status: plain.status,
+            createdAt: plain.createdAt,
+            settings: plain.settings,
+        };
+    }
+
+    static toPlayer(player: IPlayer): PlayerView {
+        return {
+            oderId: player.oderId,
+            nickname: player.nickname,
+            isHost: player.isHost ?? false,
+            joinedAt: player.joinedAt,
+        };
+    }
+
     static async getRoomPlayers(code: string): Promise<IPlayer[]> {
         return Player.find({ roomCode: code.toUpperCase() });
     }
 
+    /**
+     * Codes of the open rooms playing a game with auto-call turned on
+     */
+    static async getAutoCallRooms(): Promise<string[]> {
+        return Room.distinct('code', { status: 'playing', closedAt: { $exists: false }, 'settings.autoCall': true });
+    }
+
+    // Seats taken: everyone in the room but its spectators
+    private static async countPlayers(roomCode: string): Promise<number> {
+        return Player.countDocuments({ roomCode: roomCode.toUpperCase(), spectator: { $ne: true } });
+    }
+
     private static async cacheRoom(room: IRoom): Promise<void> {
         // Use toObject() to get a plain JS object, and remove Mongoose internals
         const roomObj = room.toObject ? room.toObject() : room;
         await redis.setex(`${this.ROOM_CACHE_PREFIX}${room.code}`, 3600, JSON.stringify(roomObj));
     }
 
+    // salt:hash, both hex
+    private static async hashPassword(password: string): Promise<string> {
+        const salt = randomBytes(16).toString('hex');
+        const hash = await scryptAsync(password, salt, 64);
+        return `${salt}:${hash.toString('hex')}`;
+    }
+
+    private static async checkPassword(password: string, stored: string): Promise<boolean> {
+        const [salt, hash] = stored.split(':');
+        if (!salt || !hash) return false;
+        const expected = Buffer.from(hash, 'hex');
+        const actual = await scryptAsync(password, salt, expected.length);
+        return timingSafeEqual(expected, actual);
+    }
+
     private static generateRoomCode(): string {
         const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
         let code = '';
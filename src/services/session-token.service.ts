@@ -0,0 +1,87 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import redis from '../lib/redis';
+
+// Signed session tokens: a player's proof of who they are in a room.
+// Issued on create/join/rejoin as base64url(claims).base64url(HMAC-SHA256(claims)),
+// expiring after SESSION_TOKEN_TTL_HOURS. Revoking a player rejects every token
+// issued to them before that moment.
+
+export interface SessionClaims {
+    roomCode: string;
+    oderId: string;
+    iat: number; // epoch ms
+    exp: number; // epoch ms
+}
+
+function hoursFromEnv(value: string | undefined, fallback: number): number {
+    const hours = Number(value);
+    return (Number.isFinite(hours) && hours > 0 ? hours : fallback) * 60 * 60 * 1000;
+}
+
+function loadSecret(): string {
+    const secret = process.env.SESSION_SECRET;
+    if (secret) return secret;
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('SESSION_SECRET must be set in production');
+    }
+    // Dev only: tokens stop working on restart and are not shared between instances
+    console.warn('⚠️ SESSION_SECRET is not set, using a random secret');
+    return randomBytes(32).toString('hex');
+}
+
+export class SessionTokenService {
+    private static REVOKED_PREFIX = 'token:revoked:';
+    private static TTL_MS = hoursFromEnv(process.env.SESSION_TOKEN_TTL_HOURS, 12);
+    private static secret = loadSecret();
+
+    /**
+     * New token for a player of a room
+     */
+    static issue(roomCode: string, oderId: string): string {
+        const now = Date.now();
+        const claims: SessionClaims = { roomCode: roomCode.toUpperCase(), oderId, iat: now, exp: now + this.TTL_MS };
+        const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+        return `${payload}.${this.sign(payload)}`;
+    }
+
+    /**
+     * Claims of a valid, unexpired and unrevoked token, or null
+     */
+    static async verify(token: unknown): Promise<SessionClaims | null> {
+        if (typeof token !== 'string') return null;
+
+        const [payload, signature, ...rest] = token.split('.');
+        if (!payload || !signature || rest.length > 0) return null;
+
+        const expected = Buffer.from(this.sign(payload));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+        let claims: SessionClaims;
+        try {
+            claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        } catch {
+            return null;
+        }
+        if (typeof claims.exp !== 'number' || claims.exp <= Date.now()) return null;
+
+        const revokedAt = await redis.get(`${this.REVOKED_PREFIX}${claims.roomCode}:${claims.oderId}`);
+        if (revokedAt && claims.iat <= Number(revokedAt)) return null;
+
+        return claims;
+    }
+
+    /**
+     * Invalidate every token issued so far to a player (kicked, banned)
+     */
+    static async revoke(roomCode: string, oderId: string): Promise<void> {
+        // Kept as long as the newest revoked token could still be valid
+        await redis.set(
+            `${this.REVOKED_PREFIX}${roomCode.toUpperCase()}:${oderId}`, String(Date.now()), 'PX', this.TTL_MS
+        );
+    }
+
+    private static sign(payload: string): string {
+        return createHmac('sha256', this.secret).update(payload).digest('base64url');
+    }
+}
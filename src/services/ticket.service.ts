@@ -1,8 +1,16 @@
 import { Ticket, ITicket, IRoom } from '../models';
 import { generateTicket } from '../lib/number-generator';
+import type { GameFormat } from '../lib/game-formats';
+import type { LotoTicket, TicketGrid } from '../lib/game-types';
 
 export class TicketService {
-    static async createTickets(roomCode: string, ownerId: string, count: number, maxPerPlayer: number): Promise<ITicket[]> {
+    static async createTickets(
+        roomCode: string,
+        ownerId: string,
+        count: number,
+        maxPerPlayer: number,
+        format: GameFormat
+    ): Promise<ITicket[]> {
         const existingCount = await Ticket.countDocuments({ roomCode: roomCode.toUpperCase(), ownerId });
         const allowed = Math.max(0, maxPerPlayer - existingCount);
         const actualCount = Math.min(count, allowed);
@@ -11,7 +19,7 @@ export class TicketService {
 
         const newTickets: ITicket[] = [];
         for (let i = 0; i < actualCount; i++) {
-            const ticketData = generateTicket(roomCode.toUpperCase(), ownerId);
+            const ticketData = generateTicket(roomCode.toUpperCase(), ownerId, format);
             const ticket = new Ticket(ticketData);
             newTickets.push(ticket);
         }
@@ -20,24 +28,25 @@ export class TicketService {
         return newTickets;
     }
 
-    static async markNumber(ticketId: string, grid: number, row: number, col: number): Promise<void> {
+    /**
+     * Toggle a mark on a cell. Returns false if the cell does not exist or is empty.
+     */
+    static async markNumber(ticketId: string, grid: number, row: number, col: number): Promise<boolean> {
         const MAX_RETRIES = 3;
         let attempt = 0;
 
         while (attempt < MAX_RETRIES) {
             try {
                 const ticket = await Ticket.findOne({ id: ticketId });
-                if (!ticket) return;
-
-                if (ticket.grids[grid] && ticket.grids[grid].rows[row]) {
-                    const rowData = ticket.grids[grid].rows[row];
-                    if (rowData.cells[col] !== null) {
-                        rowData.marked[col] = !rowData.marked[col];
-                        ticket.markModified('grids');
-                        await ticket.save();
-                    }
-                }
-                break; // Success
+                if (!ticket) return false;
+
+                const rowData = ticket.grids[grid]?.rows[row];
+                if (!rowData || rowData.cells[col] === null || rowData.cells[col] === undefined) return false;
+
+                rowData.marked[col] = !rowData.marked[col];
+                ticket.markModified('grids');
+                await ticket.save();
+                return true; // Success
             } catch (error: any) {
                 if (error.name === 'VersionError' && attempt < MAX_RETRIES - 1) {
                     attempt++;
@@ -47,17 +56,61 @@ export class TicketService {
                 throw error; // Rethrow other errors or if retries exhausted
             }
         }
+        return false;
+    }
+
+    static async countRoomTickets(roomCode: string): Promise<number> {
+        return Ticket.countDocuments({ roomCode: roomCode.toUpperCase() });
     }
 
     static async getPlayerTickets(roomCode: string, ownerId: string): Promise<ITicket[]> {
         return Ticket.find({ roomCode: roomCode.toUpperCase(), ownerId });
     }
 
-    static async getTickets(roomCode: string, ownerId: string): Promise<any[]> {
+    static async getTickets(roomCode: string, ownerId: string): Promise<ITicket[]> {
         return Ticket.find({ roomCode: roomCode.toUpperCase(), ownerId });
     }
 
+    /**
+     * Throw away a removed player's tickets so none of them can still win
+     */
+    static async deletePlayerTickets(roomCode: string, ownerId: string): Promise<number> {
+        const { deletedCount } = await Ticket.deleteMany({ roomCode: roomCode.toUpperCase(), ownerId });
+        return deletedCount;
+    }
+
+    /**
+     * A ticket as sent to its owner
+     */
+    static toLotoTicket(ticket: ITicket): LotoTicket {
+        return {
+            id: ticket.id,
+            ownerId: ticket.ownerId,
+            roomCode: ticket.roomCode,
+            createdAt: ticket.createdAt,
+            grids: ticket.grids.map(grid => ({
+                rows: grid.rows.map(row => ({ cells: [...row.cells], marked: [...row.marked] })) as TicketGrid['rows'],
+            })),
+        };
+    }
+
     static async getTicketById(id: string): Promise<ITicket | null> {
         return Ticket.findOne({ id });
     }
+
+    /**
+     * Look up a ticket in a room by its full id or by the 6-character
+     * short code printed on the ticket (MÃ VÉ: #XXXXXX)
+     */
+    static async findTicket(roomCode: string, idOrCode: string): Promise<ITicket | null> {
+        const query = idOrCode.trim().replace(/^#/, '').toLowerCase();
+        if (!query) return null;
+
+        const ticket = await Ticket.findOne({ roomCode: roomCode.toUpperCase(), id: query });
+        if (ticket) return ticket;
+
+        // Ticket ids are uuids, so a short code is always 6 hex characters
+        if (!/^[0-9a-f]{6}$/.test(query)) return null;
+        return Ticket.findOne({ roomCode: roomCode.toUpperCase(), id: { $regex: `${query}$` } });
+    }
 }